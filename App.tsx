@@ -1,142 +1,1024 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Settings, Share2, RefreshCw, Smartphone, Users, Globe, Copy, Info, KeyRound, BrainCircuit, Sparkles, Bot } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useReducer } from 'react';
+import { Settings, Share2, RefreshCw, Smartphone, Users, Globe, Copy, Info, ShieldAlert, KeyRound, BrainCircuit, Sparkles, Bot, Scale, Shuffle, Grid3x3, Cpu, Crosshair, Undo2, Redo2, History, Wifi, Link2, Eye, Timer, Library, BarChart3, Flag, Handshake, FileText, Plug, Swords, Pause, Play, Lightbulb, ChartLine, Puzzle as PuzzleIcon, PencilRuler } from 'lucide-react';
 import Board from './components/Board';
-import { Player, BoardState, GameMode, Difficulty } from './types';
-import { createEmptyGrid, checkWin, serializeBoard, deserializeBoard } from './services/gameLogic';
-import { getBestMove } from './services/geminiService';
-import { BOARD_SIZE } from './constants';
+import { Player, GameMode, Difficulty, GameSettings, GameResult, OpeningRule, OpeningAction, Seat, BoardState, Coordinates } from './types';
+import { createInitialState, createEmptyGrid, getSettings, formatCoordinates, replayMoves } from './services/gameLogic';
+import { serializeBoard, deserializeBoard, SharedGame } from './services/shareLink';
+import { connectOnline, getRelayUrl, saveRelayUrl, OnlineConnection, OnlineStatus } from './services/onlineClient';
+import { OnlineAction, OnlineError } from './services/onlineProtocol';
+import { startPeerSession, peerInviteLink, offerFromHash, PeerSession, PeerStatus } from './services/peerClient';
+import { createGameId, chainHash, checkSharedGame, getRemoteRecord, recordRemotePosition, RemoteWarning, REMOTE_WARNING_MESSAGES } from './services/remoteGuard';
+import { MoveTree, createMoveTree, addMove, addLine, movesTo, lineThrough, pathTo, ROOT } from './services/moveTree';
+import { gameReducer, createGameState, undoableMoves, GameAction } from './services/gameReducer';
+import { getBestMove, getOpeningAction, MoveSource, describeMoveSource } from './services/geminiService';
+import { LLMSettings, LLM_PROVIDERS, LLM_PROVIDER_LABELS, DEFAULT_LLM_MODELS, DEFAULT_OPENAI_BASE_URL, getLLMSettings, saveLLMSettings, llmReady, describeLLM } from './services/llmProvider';
+import { requestBestMove, requestOpeningAction, requestForcedWin, requestDrawAnswer, requestGameAnalysis, requestPuzzleReply, AITask, AI_CANCELLED } from './services/aiClient';
+import { getRules, getForbiddenPoints, RULE_VARIANTS } from './services/rules';
+import { getSeatToMove, seatOf, colorOf, otherSeat, getOpeningLabel, getOpeningDescription, OPENING_RULES } from './services/opening';
+import { EngineOptions, DEFAULT_ENGINE_OPTIONS, SearchResult } from './services/searchEngine';
+import { DEFAULT_BRIDGE_URL } from './services/gomocupClient';
+import { NO_TIME_CONTROL, TIME_CONTROL_TYPES, TIME_CONTROL_LABELS, TimeControlType, TimeControlValues, timeControlValues, buildTimeControl, thinkingBudget, isClockPaused, pauseClock, resumeClock } from './services/clock';
+import { SavedGame, SavedResult, listGames, saveGame, deleteGame, setStarred, resultOf } from './services/gameLibrary';
+import { Profile, getActiveProfile, getProfiles, setActiveProfile, createProfile, renameProfile, deleteProfile, recordGame } from './services/profiles';
+import { ThreatResult } from './services/threatSolver';
+import { ImportedGame, ExportInfo, importedMoves } from './services/notation';
+import { Hint, MoveReview, getHints, formatHintScore } from './services/coach';
+import { createSetupBoard, handicapPoints, validatePosition } from './services/position';
+import { Puzzle, PUZZLES, createPuzzleBoard, puzzleAttacker, dailyPuzzle, puzzleLink, puzzleFromHash, getPuzzleProgress, recordPuzzleAttempt } from './services/puzzles';
+import OpeningPanel from './components/OpeningPanel';
+import ReviewPanel, { ReviewAnnotations } from './components/ReviewPanel';
+import OnlinePanel from './components/OnlinePanel';
+import PeerPanel, { PeerChatLine } from './components/PeerPanel';
+import ClockDisplay from './components/ClockDisplay';
+import LibraryPanel from './components/LibraryPanel';
+import StatsPanel, { DIFFICULTY_LABELS } from './components/StatsPanel';
+import NotationPanel from './components/NotationPanel';
+import PuzzlePanel, { PuzzleStatus } from './components/PuzzlePanel';
+import PositionEditor, { EditorStart } from './components/PositionEditor';
+import { BOARD_SIZE, WIN_COUNT, BOARD_SIZE_OPTIONS, WIN_COUNT_OPTIONS, CLOCK_MINUTE_OPTIONS, CLOCK_INCREMENT_OPTIONS, CLOCK_PERIOD_OPTIONS, CLOCK_PERIOD_SECONDS_OPTIONS, AI_MATCH_DELAY_OPTIONS } from './constants';
+
+// AI moves are known by their index in the game and their point, so a move
+// taken back and replaced by another loses its label
+const sourceKey = (index: number, { row, col }: Coordinates): string => `${index}:${row},${col}`;
 
 function App() {
   // Game State
-  const [boardState, setBoardState] = useState<BoardState>({
-    grid: createEmptyGrid(),
-    currentPlayer: Player.Black,
-    winner: null,
-    history: [],
-    winningLine: null,
-  });
+  const [game, dispatch] = useReducer(gameReducer, undefined, () => createGameState(createInitialState()));
+  const boardState = game.board;
+  // Local mode: the seat asking to take its last move back, waiting for the other side
+  const [takebackRequest, setTakebackRequest] = useState<Seat | null>(null);
+  // Draw offers: in local games the seat offering, waiting for the other side;
+  // against the AI, the search deciding whether to accept
+  const [drawOffer, setDrawOffer] = useState<Seat | null>(null);
+  const [drawNotice, setDrawNotice] = useState<string>('');
+  const [isWeighingDraw, setIsWeighingDraw] = useState<boolean>(false);
+  const drawTask = useRef<AITask<boolean> | null>(null);
+  // Review: the game as a tree of variations and the position being looked at.
+  // The tree is kept when leaving review, so variations survive until a new game.
+  const [review, setReview] = useState<{ tree: MoveTree; node: number } | null>(null);
+  const [isReviewing, setIsReviewing] = useState<boolean>(false);
+  // Opened from a watch link: the game can be followed and stepped through, not played
+  const [spectating, setSpectating] = useState<boolean>(false);
+  // The time the clocks are shown at, updated while one is running
+  const [now, setNow] = useState<number>(Date.now);
   
   // Settings & Modes
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.Local);
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.Medium);
-  const [apiKey, setApiKey] = useState<string>('');
+  const [aiSeat, setAiSeat] = useState<Seat>(Seat.Second);
+  // AI matches: the level playing each seat, the pause before each move, and whether play is halted
+  const [matchLevels, setMatchLevels] = useState<Record<Seat, Difficulty>>({ [Seat.First]: Difficulty.Medium, [Seat.Second]: Difficulty.Master });
+  const [matchDelay, setMatchDelay] = useState<number>(AI_MATCH_DELAY_OPTIONS[1]);
+  const [matchPaused, setMatchPaused] = useState<boolean>(false);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(getLLMSettings);
+  const [engineOptions, setEngineOptions] = useState<EngineOptions>(DEFAULT_ENGINE_OPTIONS);
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [isThinking, setIsThinking] = useState<boolean>(false);
+  // Latest completed search depth reported by the AI worker
+  const [thinkingProgress, setThinkingProgress] = useState<SearchResult | null>(null);
+  // The AI could not move, not even with the fallback; cleared when the position changes
+  const [aiFailed, setAiFailed] = useState<boolean>(false);
   const [showShareModal, setShowShareModal] = useState<boolean>(false);
   const [copyFeedback, setCopyFeedback] = useState<string>('');
+  // Link play: which game this is, and anything odd about the last link opened
+  const [remoteGameId, setRemoteGameId] = useState<string>(createGameId);
+  const [remoteWarnings, setRemoteWarnings] = useState<RemoteWarning[]>([]);
+  const [remoteNotice, setRemoteNotice] = useState<string>('');
+  // Live online play: the room we sit in, the connection and who is connected
+  const [onlineRoom, setOnlineRoom] = useState<{ code: string; seat: Seat } | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<OnlineStatus>('closed');
+  const [onlinePresence, setOnlinePresence] = useState<Record<Seat, boolean> | null>(null);
+  const [onlineError, setOnlineError] = useState<OnlineError | null>(null);
+  const [relayUrl, setRelayUrl] = useState<string>(getRelayUrl);
+  const onlineConnection = useRef<OnlineConnection | null>(null);
+  // Peer-to-peer play: our seat once hosting or joining, the code to pass on,
+  // chat and the other side's pending request
+  const [peerSeat, setPeerSeat] = useState<Seat | null>(null);
+  const [peerStatus, setPeerStatus] = useState<PeerStatus>('closed');
+  const [peerSignal, setPeerSignal] = useState<string>('');
+  const [peerChat, setPeerChat] = useState<PeerChatLine[]>([]);
+  const [peerRequest, setPeerRequest] = useState<'takeback' | 'draw' | null>(null);
+  const [peerNotice, setPeerNotice] = useState<string>('');
+  const peerSession = useRef<PeerSession | null>(null);
+  // Game library: the entry this game is saved under, and the library screen
+  const [libraryId, setLibraryId] = useState<string>(createGameId);
+  const [showLibrary, setShowLibrary] = useState<boolean>(false);
+  const [libraryGames, setLibraryGames] = useState<SavedGame[] | null>(null);
+  // A board just opened from the library, which needs no saving until it changes
+  const resumedBoard = useRef<BoardState | null>(null);
+  // The player whose results are recorded, and the stats dashboard
+  const [profile, setProfile] = useState<Profile>(getActiveProfile);
+  const [showStats, setShowStats] = useState<boolean>(false);
+  // Import and export of game records, opened on one of its tabs
+  const [notationTab, setNotationTab] = useState<'export' | 'import' | null>(null);
+  // Forced-win analysis: the solver's result and how many of its moves are shown so far
+  const [analysis, setAnalysis] = useState<{ result: ThreatResult | null; shown: number } | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState<boolean>(false);
+  const analysisTask = useRef<AITask<{ result: ThreatResult | null }> | null>(null);
+  // Suggested moves for the position shown, and the mistake analysis of a finished game
+  const [hints, setHints] = useState<Hint[] | null>(null);
+  const [annotations, setAnnotations] = useState<ReviewAnnotations | null>(null);
+  const [isAnnotating, setIsAnnotating] = useState<boolean>(false);
+  const annotationTask = useRef<AITask<MoveReview[]> | null>(null);
+  // Puzzle mode: the puzzle being solved, and whether its answer was looked at this attempt
+  const [puzzleRun, setPuzzleRun] = useState<{ puzzle: Puzzle; status: PuzzleStatus; revealed: boolean } | null>(null);
+  const [showSolution, setShowSolution] = useState<boolean>(false);
+  const [puzzleProgress, setPuzzleProgress] = useState(getPuzzleProgress);
+  const [puzzleNotice, setPuzzleNotice] = useState<string>('');
+  // What actually played each AI move this game (the LLM, or what stood in for it)
+  const [moveSources, setMoveSources] = useState<Record<string, MoveSource>>({});
+  // Position editor: the stones set up so far, the side to move, the handicap
+  // if it is a handicap game, and the stone a click places (None erases)
+  const [editor, setEditor] = useState<{ grid: Player[][]; toMove: Player; handicap: number | null; brush: Player } | null>(null);
   
-  // Load API Key from local storage
+  // Load engine settings from local storage
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) setApiKey(storedKey);
-
-    // Check URL hash for shared game state
-    const hash = window.location.hash.slice(1);
-    if (hash) {
+    const storedEngine = localStorage.getItem('engine_options');
+    if (storedEngine) {
       try {
-        const decodedGrid = deserializeBoard(hash);
-        // Determine player turn based on piece count
-        const blackCount = decodedGrid.flat().filter(c => c === Player.Black).length;
-        const whiteCount = decodedGrid.flat().filter(c => c === Player.White).length;
-        const nextPlayer = blackCount > whiteCount ? Player.White : Player.Black;
-
-        setBoardState({
-          grid: decodedGrid,
-          currentPlayer: nextPlayer,
-          winner: null,
-          history: [], // History lost in simple URL sharing
-          winningLine: null
-        });
-        setGameMode(GameMode.Remote);
+        setEngineOptions({ ...DEFAULT_ENGINE_OPTIONS, ...JSON.parse(storedEngine) });
       } catch (e) {
-        console.error("Failed to load board from URL", e);
+        console.error("Ignoring invalid engine settings", e);
       }
     }
+
+    // Check URL hash for shared game state
+    openSharedLink(window.location.hash.slice(1));
   }, []);
 
-  const saveApiKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem('gemini_api_key', key);
+  // Links opened later in this tab (e.g. a newer watch link) load too
+  useEffect(() => {
+    const onHashChange = () => openSharedLink(window.location.hash.slice(1));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  });
+
+  const openSharedLink = (hash: string) => {
+    const puzzle = puzzleFromHash(hash);
+    if (puzzle) {
+      loadPuzzle(puzzle);
+      return;
+    }
+    const offer = offerFromHash(hash);
+    if (offer) {
+      // Invitation to a peer-to-peer game: answer it straight away
+      setGameMode(GameMode.Peer);
+      startPeer({ offer });
+      window.history.replaceState(null, '', window.location.pathname);
+      return;
+    }
+    if (!hash) return;
+
+    let shared: SharedGame;
+    try {
+      shared = deserializeBoard(hash);
+    } catch (e) {
+      console.error("Failed to load board from URL", e);
+      return;
+    }
+    if (shared.watch) {
+      watchSharedGame(shared);
+      return;
+    }
+
+    dispatch({ type: 'load', board: shared.board });
+    setReview(null);
+    setSpectating(false);
+    setGameMode(shared.mode);
+    setLibraryId(shared.integrity?.gameId ?? createGameId());
+    if (shared.integrity) {
+      const { gameId, chain } = shared.integrity;
+      const warnings = checkSharedGame(gameId, chain, shared.board.history);
+      setRemoteGameId(gameId);
+      setRemoteWarnings(warnings);
+      // An old link must not overwrite the newer position remembered here
+      if (!warnings.includes('stale')) recordRemotePosition(gameId, shared.board.history, null);
+    }
   };
 
-  const resetGame = () => {
-    setBoardState({
-      grid: createEmptyGrid(),
-      currentPlayer: Player.Black,
-      winner: null,
-      history: [],
-      winningLine: null
+  // Watch links open the game in review and cannot place stones. A newer
+  // link of the game already being watched only adds the moves since.
+  const watchSharedGame = (shared: SharedGame) => {
+    const moves = shared.board.history;
+    const live = boardState.history;
+    const catchingUp = spectating && review !== null
+      && shared.integrity?.gameId === remoteGameId
+      && !boardState.opening && !shared.board.opening
+      && moves.length >= live.length
+      && live.every((move, i) => moves[i].row === move.row && moves[i].col === move.col);
+
+    if (catchingUp) {
+      for (const { row, col } of moves.slice(live.length)) dispatch({ type: 'move', row, col });
+    } else {
+      dispatch({ type: 'load', board: shared.board });
+    }
+
+    // Keep following the last move, unless the viewer had stepped back
+    const following = !catchingUp || movesTo(review!.tree, review!.node).length === live.length;
+    const added = addLine(catchingUp ? review!.tree : createMoveTree(), moves);
+    setReview({ tree: added.tree, node: following ? added.node : review!.node });
+    setIsReviewing(true);
+    setSpectating(true);
+    setGameMode(shared.mode);
+    setRemoteGameId(shared.integrity?.gameId ?? createGameId());
+    // Spectators have no position of their own to compare with, only the hash
+    setRemoteWarnings(
+      shared.integrity && chainHash(shared.integrity.gameId, moves) !== shared.integrity.chain ? ['tampered'] : []
+    );
+  };
+
+  const saveLlmSettings = (changes: Partial<LLMSettings>) => {
+    const updated = { ...llmSettings, ...changes };
+    setLlmSettings(updated);
+    saveLLMSettings(updated);
+  };
+
+  const saveEngineOptions = (changes: Partial<EngineOptions>) => {
+    const updated = { ...engineOptions, ...changes };
+    setEngineOptions(updated);
+    localStorage.setItem('engine_options', JSON.stringify(updated));
+  };
+
+  const leaveOnlineRoom = () => {
+    onlineConnection.current?.close();
+    onlineConnection.current = null;
+    setOnlineRoom(null);
+    setOnlinePresence(null);
+  };
+
+  // Create a room with the current settings, or join one by code. The board
+  // is replaced by the room's game as soon as the relay answers.
+  const enterOnlineRoom = (target: { settings: GameSettings } | { code: string }) => {
+    leaveOnlineRoom();
+    setOnlineError(null);
+    saveRelayUrl(relayUrl);
+    setLibraryId(createGameId());
+    onlineConnection.current = connectOnline(relayUrl, target, {
+      onStatus: setOnlineStatus,
+      onRoom: ({ code, seat, board }) => {
+        setOnlineRoom({ code, seat });
+        dispatch({ type: 'load', board });
+        setReview(null);
+        setIsReviewing(false);
+      },
+      onAction: dispatch,
+      onPresence: setOnlinePresence,
+      onError: setOnlineError,
     });
+  };
+
+  const leavePeer = () => {
+    peerSession.current?.close();
+    peerSession.current = null;
+    setPeerSeat(null);
+    setPeerSignal('');
+    setPeerChat([]);
+    setPeerRequest(null);
+    setPeerNotice('');
+  };
+
+  // Host with the current settings, or answer a host's offer. The code to
+  // pass on shows up in the peer panel once it is ready.
+  const startPeer = (role: { settings: GameSettings } | { offer: string }) => {
+    leavePeer();
+    const isHost = 'settings' in role;
+    const session = startPeerSession(role, {
+      onStatus: setPeerStatus,
+      onSignal: (code) => setPeerSignal(isHost ? peerInviteLink(code) : code),
+      onBoard: (board) => {
+        // An empty board is a new game; anything else is the same game resent
+        if (board.history.length === 0) setLibraryId(createGameId());
+        dispatch({ type: 'load', board });
+        setReview(null);
+        setIsReviewing(false);
+      },
+      onAction: dispatch,
+      onEvent: (event) => {
+        if (event.type === 'chat') setPeerChat(prev => [...prev, { mine: false, text: event.text }]);
+        else if (event.type === 'takeback-request') setPeerRequest('takeback');
+        else if (event.type === 'draw-offer') setPeerRequest('draw');
+        else if (event.type === 'takeback-declined') setPeerNotice('对手拒绝了悔棋。');
+        else setPeerNotice('对手拒绝了和棋。');
+      },
+    });
+    peerSession.current = session;
+    setPeerSeat(session.seat);
+  };
+
+  const answerPeer = (code: string) => {
+    peerSession.current?.acceptAnswer(code).catch(() => setPeerNotice('回应码无效，请检查后重试。'));
+  };
+
+  const replyToPeer = (accepted: boolean) => {
+    const session = peerSession.current;
+    if (!session || !peerRequest) return;
+    if (peerRequest === 'takeback') {
+      if (accepted) session.play({ type: 'undo', count: 1 });
+      else session.send({ type: 'takeback-declined' });
+    } else {
+      if (accepted) session.play({ type: 'draw' });
+      else session.send({ type: 'draw-declined' });
+    }
+    setPeerRequest(null);
+  };
+
+  const sendPeerChat = (text: string) => {
+    peerSession.current?.send({ type: 'chat', text });
+    setPeerChat(prev => [...prev, { mine: true, text }]);
+  };
+
+  useEffect(() => () => {
+    onlineConnection.current?.close();
+    peerSession.current?.close();
+  }, []);
+
+  // Start a new game, keeping the current settings unless overridden.
+  // This also leaves any online room or peer-to-peer game.
+  const resetGame = (overrides: Partial<GameSettings> = {}) => {
+    leaveOnlineRoom();
+    leavePeer();
+    setSpectating(false);
+    dispatch({ type: 'load', board: createInitialState({ ...getSettings(boardState), ...overrides }) });
+    setReview(null);
+    setIsReviewing(false);
+    setPuzzleRun(null);
+    setEditor(null);
+    setMoveSources({});
+    // Link play and the library know the game by the same id
+    const id = createGameId();
+    setRemoteGameId(id);
+    setLibraryId(id);
+    setRemoteWarnings([]);
     // Clear hash
     window.history.pushState(null, '', window.location.pathname);
   };
 
+  // Network games are untimed: their actions carry no time both sides agree on
+  const networkSettings = (): GameSettings => ({ ...getSettings(boardState), timeControl: NO_TIME_CONTROL });
+
+  const timeControl = getSettings(boardState).timeControl;
+  const changeTimeControl = (type: TimeControlType, changes: Partial<TimeControlValues> = {}) => {
+    resetGame({ timeControl: buildTimeControl(type, { ...timeControlValues(timeControl), ...changes }) });
+  };
+
+  const seatToMove = getSeatToMove(boardState);
+  const openingStep = boardState.opening?.steps[0] ?? null;
+  // Nothing can be played while the clocks are paused
+  const clockPaused = !!boardState.clock && isClockPaused(boardState.clock);
+  // The level of the AI to act now, if it is an AI's turn
+  const aiLevel: Difficulty | null = gameMode === GameMode.AI ? (seatToMove === aiSeat ? difficulty : null)
+    : gameMode === GameMode.AIMatch ? matchLevels[seatToMove]
+    : null;
+  // The AI waits while a position is being set up
+  const isAiTurn = aiLevel !== null && !boardState.result && !(gameMode === GameMode.AIMatch && matchPaused) && !editor;
+  // Live network games: this browser's seat, while connected and still playing
+  const networkSeat = gameMode === GameMode.Online
+    ? (onlineStatus === 'open' ? onlineRoom?.seat ?? null : null)
+    : gameMode === GameMode.Peer && peerStatus === 'open' ? peerSeat : null;
+  const remoteOwned = gameMode === GameMode.Remote ? getRemoteRecord(remoteGameId)?.owned ?? null : null;
+  // The seat this browser plays, where there is one (local games have both)
+  const playerSeat: Seat | null = gameMode === GameMode.AI ? otherSeat(aiSeat)
+    : gameMode === GameMode.Online ? onlineRoom?.seat ?? null
+    : gameMode === GameMode.Peer ? peerSeat
+    : remoteOwned !== null ? seatOf(boardState, remoteOwned) : null;
+  // Only the seat to move may act; in AI matches nobody at this browser does,
+  // in puzzles only the attacker while the attempt is on
+  const puzzleAttackerColor = puzzleRun ? puzzleAttacker(puzzleRun.puzzle) : null;
+  const isOpponentTurn = ((gameMode === GameMode.Online || gameMode === GameMode.Peer) && seatToMove !== networkSeat)
+    || gameMode === GameMode.AIMatch
+    || (gameMode === GameMode.Puzzle && (puzzleRun?.status !== 'playing' || boardState.currentPlayer !== puzzleAttackerColor));
+
+  const seatName = (seat: Seat): string => {
+    if (gameMode === GameMode.AI) return seat === aiSeat ? 'AI' : '你';
+    if (gameMode === GameMode.Online && onlineRoom) return seat === onlineRoom.seat ? '你' : '对手';
+    if (gameMode === GameMode.Peer && peerSeat) return seat === peerSeat ? '你' : '对手';
+    if (gameMode === GameMode.AIMatch) return `AI ${DIFFICULTY_LABELS[matchLevels[seat]]}`;
+    if (gameMode === GameMode.Puzzle) return colorOf(boardState, seat) === puzzleAttackerColor ? '你' : '对手';
+    return seat === Seat.First ? '先手方' : '后手方';
+  };
+
+  // In review the board shows the selected position instead of the live game
+  const reviewBoard = useMemo(
+    () => (isReviewing && review ? replayMoves(boardState, movesTo(review.tree, review.node)) : null),
+    [isReviewing, review, boardState]
+  );
+  const shownBoard = reviewBoard ?? boardState;
+
+  // Points the side to move may not play under the current rules
+  const forbiddenPoints = useMemo(() => {
+    if (shownBoard.result || openingStep?.type === 'select') return [];
+    return getForbiddenPoints(shownBoard.grid, shownBoard.currentPlayer, shownBoard.rule, shownBoard.winLength);
+  }, [shownBoard.grid, shownBoard.currentPlayer, shownBoard.result, shownBoard.rule, shownBoard.winLength, openingStep]);
+
   const handleCellClick = async (row: number, col: number) => {
+    if (editor) return editCell(row, col);
+    if (spectating) return;
+    if (reviewBoard && review) {
+      // Trying a move in review opens (or revisits) a variation from this position
+      if (reviewBoard.result || reviewBoard.grid[row][col] !== Player.None) return;
+      if (forbiddenPoints.some(p => p.row === row && p.col === col)) return;
+      setReview(addMove(review.tree, review.node, { row, col, player: reviewBoard.currentPlayer }));
+      return;
+    }
+
     // Basic validation
-    if (boardState.winner || boardState.grid[row][col] !== Player.None || isThinking) return;
-    
-    // In remote mode, you play your move, then must share
-    // We strictly enforce turns? No, let's keep it flexible for "Local" feel unless explicitly AI.
-
-    const newGrid = boardState.grid.map(r => [...r]);
-    newGrid[row][col] = boardState.currentPlayer;
-
-    const winningLine = checkWin(newGrid, row, col, boardState.currentPlayer);
-    
-    const newHistory = [...boardState.history, { row, col, player: boardState.currentPlayer }];
-
-    setBoardState(prev => ({
-      ...prev,
-      grid: newGrid,
-      currentPlayer: prev.currentPlayer === Player.Black ? Player.White : Player.Black,
-      winner: winningLine ? prev.currentPlayer : null,
-      winningLine: winningLine,
-      history: newHistory
-    }));
+    if (boardState.result || boardState.grid[row][col] !== Player.None || isThinking || isAiTurn || isOpponentTurn || clockPaused) return;
 
-    // Logic for AI Turn
-    if (!winningLine && gameMode === GameMode.AI && boardState.currentPlayer === Player.Black) {
-      // It was Black's turn (User), now it's White's turn (AI)
-      setIsThinking(true);
-      // Small delay for UX so it doesn't feel instant
-      const delay = difficulty === Difficulty.Hard ? 100 : 600; 
-      
-      setTimeout(async () => {
-        // We need to pass the *latest* grid state, which is newGrid
-        const aiMove = await getBestMove(apiKey, newGrid, Player.White, difficulty);
-        makeAIMove(newGrid, aiMove);
-      }, delay);
+    if (boardState.opening) {
+      const type = openingStep?.type === 'select' ? 'select' : 'place';
+      play({ type: 'opening', action: { type, move: { row, col } } });
+      return;
+    }
+
+    if (forbiddenPoints.some(p => p.row === row && p.col === col)) return;
+
+    // In link play each browser keeps the colour of its first stone
+    if (gameMode === GameMode.Remote) {
+      const owned = getRemoteRecord(remoteGameId)?.owned ?? null;
+      if (owned !== null && owned !== boardState.currentPlayer) {
+        setRemoteNotice('现在轮到对方落子，请把链接发给对方并等待对方发回新链接。');
+        setTimeout(() => setRemoteNotice(''), 3000);
+        return;
+      }
+      const move = { row, col, player: boardState.currentPlayer };
+      recordRemotePosition(remoteGameId, [...boardState.history, move], boardState.currentPlayer);
+    }
+    play({ type: 'move', row, col });
+  };
+
+  // Online, the action goes to the relay and is applied when it comes back;
+  // peer to peer, the session applies it and passes it on
+  const play = (action: OnlineAction) => {
+    if (gameMode === GameMode.Online) onlineConnection.current?.play(action);
+    else if (gameMode === GameMode.Peer) peerSession.current?.play(action);
+    else dispatch({ ...action, at: Date.now() });
+  };
+
+  const handleOpeningAction = (action: OpeningAction) => {
+    if (isThinking || isAiTurn || isOpponentTurn || clockPaused) return;
+    play({ type: 'opening', action });
+  };
+
+  const lastMove = boardState.history.length > 0 ? boardState.history[boardState.history.length - 1] : null;
+  const lastMoveSource = lastMove ? moveSources[sourceKey(boardState.history.length - 1, lastMove)] ?? null : null;
+  // No takebacks from the toolbar when playing over the network; peer-to-peer
+  // games ask the other side from their own panel
+  const isNetworked = gameMode === GameMode.Remote || gameMode === GameMode.Online || gameMode === GameMode.Peer;
+  // Nor in AI matches, which nobody here plays, or in puzzles, which start over instead
+  const hasTakebacks = !isNetworked && gameMode !== GameMode.AIMatch && gameMode !== GameMode.Puzzle;
+  const canPeerTakeback = gameMode === GameMode.Peer && networkSeat !== null && lastMove !== null
+    && seatOf(boardState, lastMove.player) === networkSeat && undoableMoves(boardState) > 0;
+  const canUndo = hasTakebacks && !isReviewing && undoableMoves(boardState) > 0 && takebackRequest === null;
+  const canRedo = hasTakebacks && !isReviewing && game.redo.length > 0 && !isAiTurn && takebackRequest === null;
+  const canReview = !boardState.opening && boardState.history.length > 0 && !isThinking && !isAiTurn;
+
+  // Enter review at the current position, adding the game so far to the tree
+  const startReview = () => {
+    if (!canReview) return;
+    setReview(prev => addLine(prev?.tree ?? createMoveTree(), boardState.history));
+    setIsReviewing(true);
+  };
+
+  const selectReviewNode = (node: number) => {
+    setReview(prev => prev && { ...prev, node });
+  };
+
+  // Arrow keys step through the game while reviewing
+  useEffect(() => {
+    if (!isReviewing) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!review || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      const { tree, node } = review;
+      const line = lineThrough(tree, node);
+      let target: number | null = null;
+      if (event.key === 'ArrowLeft') target = tree.nodes[node].parent;
+      else if (event.key === 'ArrowRight') target = tree.nodes[node].children[0] ?? null;
+      else if (event.key === 'ArrowUp' || event.key === 'Home') target = ROOT;
+      else if (event.key === 'ArrowDown' || event.key === 'End') target = line[line.length - 1] ?? ROOT;
+      else return;
+      event.preventDefault();
+      if (target !== null) selectReviewNode(target);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isReviewing, review]);
+
+  // Pending takeback requests and draw offers are void once the position changes
+  useEffect(() => {
+    setTakebackRequest(null);
+    setDrawOffer(null);
+    setDrawNotice('');
+    drawTask.current?.cancel();
+    drawTask.current = null;
+    setIsWeighingDraw(false);
+    setPeerRequest(null);
+    setPeerNotice('');
+  }, [boardState]);
+
+  const handleUndo = () => {
+    if (!canUndo || !lastMove) return;
+    if (gameMode === GameMode.AI) {
+      // Take back the AI's reply together with your own move, so it is your turn again.
+      // While the AI is still thinking only your move is on the board.
+      const aiMovedLast = seatOf(boardState, lastMove.player) === aiSeat;
+      dispatch({ type: 'undo', count: aiMovedLast ? 2 : 1, at: Date.now() });
+      return;
+    }
+    // Local: the player who just moved asks, the other player has to agree
+    setTakebackRequest(seatOf(boardState, lastMove.player));
+  };
+
+  // How the game ended, for the status line
+  const describeResult = (result: GameResult): string => {
+    if (result.reason === 'full-board') return '🤝 棋盘已满，和棋';
+    if (result.reason === 'agreement') return '🤝 双方同意和棋';
+    const side = (player: Player) => `${player === Player.Black ? '黑子' : '白子'} (${seatName(seatOf(boardState, player))})`;
+    const winner = side(result.winner!);
+    const loser = side(result.winner === Player.Black ? Player.White : Player.Black);
+    if (result.reason === 'resignation') return `🏳️ ${loser}认输，${winner}获胜`;
+    if (result.reason === 'timeout') return `⏰ ${loser}超时，${winner}获胜`;
+    return `🎉 ${winner} 获胜!`;
+  };
+
+  // Resign for this browser's seat, or in local games for the seat to move
+  const canResign = !boardState.result && !isReviewing && !spectating && gameMode !== GameMode.AIMatch && gameMode !== GameMode.Puzzle
+    && (gameMode !== GameMode.Online || networkSeat !== null);
+  const handleResign = () => {
+    if (!canResign) return;
+    const seat = playerSeat ?? seatToMove;
+    if (!window.confirm(gameMode === GameMode.Local ? `${seatName(seat)}认输？` : '确定认输吗？')) return;
+    play({ type: 'resign', seat });
+  };
+
+  // Draw offers go to the other local player, or to the AI, which answers
+  // from its own evaluation of the position
+  const canOfferDraw = !boardState.result && !isReviewing && drawOffer === null && !isWeighingDraw
+    && (gameMode === GameMode.Local || (gameMode === GameMode.AI && !isAiTurn && !isThinking));
+  const handleOfferDraw = () => {
+    if (!canOfferDraw) return;
+    if (gameMode === GameMode.Local) {
+      setDrawOffer(seatToMove);
+      return;
     }
+    const task = requestDrawAnswer(boardState, colorOf(boardState, aiSeat));
+    drawTask.current = task;
+    setIsWeighingDraw(true);
+    setDrawNotice('AI 正在考虑和棋提议...');
+    task.promise
+      .then(accepted => {
+        if (drawTask.current !== task) return;
+        if (accepted) dispatch({ type: 'draw', at: Date.now() });
+        else setDrawNotice('AI 拒绝了和棋，认为自己局面更好。');
+      })
+      .catch(error => {
+        if (error.message === AI_CANCELLED) return;
+        console.error("Draw evaluation failed", error);
+        if (drawTask.current === task) setDrawNotice('AI 拒绝了和棋。');
+      })
+      .finally(() => {
+        if (drawTask.current !== task) return;
+        drawTask.current = null;
+        setIsWeighingDraw(false);
+      });
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    dispatch({ type: 'redo', count: gameMode === GameMode.AI ? 2 : 1, at: Date.now() });
+  };
+
+  // Logic for AI Turn: whenever it is the AI's seat to act, in the opening or in play.
+  // The search runs in a worker; leaving this state (move, reset, mode change) cancels it.
+  useEffect(() => {
+    if (!isAiTurn) return;
+
+    let cancelled = false;
+    let task: AITask<unknown> | null = null;
+    const level = aiLevel!;
+    setIsThinking(true);
+    setThinkingProgress(null);
+    // Small delay for UX so it doesn't feel instant; AI matches go at the chosen speed
+    const delay = gameMode === GameMode.AIMatch ? matchDelay
+      : level === Difficulty.Easy || level === Difficulty.Medium ? 600 : 100;
+
+    const timer = setTimeout(async () => {
+      const snapshot = boardState;
+      const onProgress = (progress: SearchResult) => {
+        if (!cancelled) setThinkingProgress(progress);
+      };
+      // On the clock, think for no longer than the time left allows
+      const options = snapshot.clock
+        ? { ...engineOptions, timeLimitMs: Math.min(engineOptions.timeLimitMs, thinkingBudget(snapshot.clock, seatToMove, Date.now())) }
+        : engineOptions;
+      let next: Extract<GameAction, { type: 'move' | 'opening' }>;
+      let source: MoveSource | null = null;
+      try {
+        if (snapshot.opening) {
+          const opening = requestOpeningAction(llmSettings, snapshot, level, options, onProgress);
+          task = opening;
+          next = { type: 'opening', action: await opening.promise, expected: snapshot };
+        } else {
+          const move = requestBestMove(llmSettings, snapshot.grid, snapshot.currentPlayer, level, snapshot.rule, snapshot.winLength, options, onProgress);
+          task = move;
+          const aiMove = await move.promise;
+          next = { type: 'move', row: aiMove.row, col: aiMove.col, expected: snapshot };
+          source = aiMove.source;
+        }
+      } catch (error) {
+        if (cancelled || (error instanceof Error && error.message === AI_CANCELLED)) return;
+        // Worker failed or ran out of time: fall back to the quick heuristic here
+        console.error("AI worker failed, using Medium on the main thread", error);
+        try {
+          if (snapshot.opening) {
+            next = { type: 'opening', action: await getOpeningAction(llmSettings, snapshot, Difficulty.Medium), expected: snapshot };
+          } else {
+            const aiMove = await getBestMove(llmSettings, snapshot.grid, snapshot.currentPlayer, Difficulty.Medium, snapshot.rule, snapshot.winLength);
+            next = { type: 'move', row: aiMove.row, col: aiMove.col, expected: snapshot };
+            source = { ...aiMove.source, fallback: error instanceof Error ? error.message : String(error) };
+          }
+        } catch (fallbackError) {
+          console.error("AI fallback failed too", fallbackError);
+          if (!cancelled) {
+            setIsThinking(false);
+            setThinkingProgress(null);
+            setAiFailed(true);
+          }
+          return;
+        }
+      }
+      // The game may have been reset while we were thinking; the reducer also
+      // ignores the result if the board has moved on
+      if (!cancelled) {
+        if (source && next.type === 'move') {
+          const key = sourceKey(snapshot.history.length, next);
+          setMoveSources(prev => ({ ...prev, [key]: source! }));
+        }
+        dispatch({ ...next, at: Date.now() });
+        setIsThinking(false);
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      task?.cancel();
+      setIsThinking(false);
+      setThinkingProgress(null);
+      setAiFailed(false);
+    };
+  }, [boardState, isAiTurn]);
+
+  // Tick while a clock runs. Spectators only watch the time; the game ends
+  // on time for them when a newer link says so.
+  const clockRunning = !!boardState.clock && !boardState.result && boardState.clock.turnStart !== null;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const timer = setInterval(() => {
+      const at = Date.now();
+      setNow(at);
+      // Ignored until the time has actually run out
+      if (!spectating) dispatch({ type: 'flag', at });
+    }, 200);
+    return () => clearInterval(timer);
+  }, [clockRunning, spectating]);
+
+  const toggleClockPause = () => {
+    if (!boardState.clock) return;
+    const at = Date.now();
+    setNow(at);
+    dispatch({ type: isClockPaused(boardState.clock) ? 'resume' : 'pause', at });
   };
 
-  const makeAIMove = (currentGrid: Player[][], move: { row: number, col: number }) => {
-    const newGrid = currentGrid.map(r => [...r]);
-    newGrid[move.row][move.col] = Player.White;
+  const gameResult: SavedResult = resultOf(boardState);
 
-    const winningLine = checkWin(newGrid, move.row, move.col, Player.White);
-    const newHistory = [...boardState.history, { row: move.row, col: move.col, player: Player.White }]; // Note: history logic here is simplified
+  // Save the game to the library after every change, once a stone is down
+  useEffect(() => {
+    if (spectating || gameMode === GameMode.Puzzle || boardState.history.length === 0 || boardState === resumedBoard.current) return;
+    saveGame({
+      id: libraryId,
+      board: boardState,
+      mode: gameMode,
+      difficulty: gameMode === GameMode.AI ? difficulty : null,
+      aiSeat: gameMode === GameMode.AI ? aiSeat : null,
+      players: { [Seat.First]: seatName(Seat.First), [Seat.Second]: seatName(Seat.Second) } as Record<Seat, string>,
+      result: gameResult,
+      moveCount: boardState.history.length,
+      updatedAt: Date.now(),
+    }).catch(error => console.error("Failed to save the game", error));
+  }, [boardState, libraryId]);
 
-    setBoardState(prev => ({
-      ...prev,
-      grid: newGrid,
-      currentPlayer: Player.Black,
-      winner: winningLine ? Player.White : null,
-      winningLine: winningLine,
-      history: newHistory
+  // Finished games count for the active profile, from the side it played.
+  // Local games have no side of their own and are not counted.
+  useEffect(() => {
+    if (gameResult === 'ongoing' || spectating || !playerSeat || boardState === resumedBoard.current) return;
+    const won = (gameResult === 'black') === (colorOf(boardState, playerSeat) === Player.Black);
+    setProfile(recordGame(profile.id, {
+      gameId: libraryId,
+      mode: gameMode,
+      difficulty: gameMode === GameMode.AI ? difficulty : null,
+      outcome: gameResult === 'draw' ? 'draw' : won ? 'win' : 'loss',
+      moves: boardState.history.length,
+      at: Date.now(),
     }));
-    setIsThinking(false);
+  }, [gameResult]);
+
+  const openLibrary = () => {
+    setShowLibrary(true);
+    setLibraryGames(null);
+    listGames()
+      .then(setLibraryGames)
+      .catch(error => {
+        console.error("Failed to read the game library", error);
+        setLibraryGames([]);
+      });
+  };
+
+  // Continue a saved game where it stopped, or open a copy of it in review
+  const openSavedGame = (saved: SavedGame, resume: boolean) => {
+    resetGame();
+    let board = saved.board;
+    if (resume && board.clock) {
+      // The clocks stood still while the game was put away; local players restart them when ready
+      const paused = pauseClock(board.clock, saved.updatedAt);
+      board = { ...board, clock: saved.mode === GameMode.Local ? paused : resumeClock(paused, Date.now()) };
+    }
+    resumedBoard.current = board;
+    dispatch({ type: 'load', board });
+    if (saved.difficulty) setDifficulty(saved.difficulty);
+    if (saved.aiSeat) setAiSeat(saved.aiSeat);
+    if (resume) {
+      setGameMode(saved.mode);
+      setRemoteGameId(saved.id);
+      setLibraryId(saved.id);
+    } else {
+      // Playing on from the review starts a new game; live network games and AI matches carry on locally
+      setGameMode(saved.mode === GameMode.Online || saved.mode === GameMode.Peer || saved.mode === GameMode.AIMatch ? GameMode.Local : saved.mode);
+      setReview(addLine(createMoveTree(), board.history));
+      setIsReviewing(true);
+    }
+    setShowLibrary(false);
+  };
+
+  // Names written into exported records; local games have no names to give
+  const exportInfo = (): ExportInfo => {
+    const name = (color: Player) => {
+      const seat = seatOf(boardState, color);
+      if (gameMode === GameMode.Local) return '';
+      return seat === playerSeat ? profile.name : seatName(seat);
+    };
+    return {
+      players: { black: name(Player.Black), white: name(Player.White) },
+      // Variations tried in review go into the export too, after any moves played since
+      tree: review ? addLine(review.tree, boardState.history).tree : undefined,
+    };
+  };
+
+  // An imported record opens in review as a local game, its variations as review lines
+  const openImportedGame = (imported: ImportedGame) => {
+    resetGame();
+    const moves = importedMoves(imported);
+    const replayed = replayMoves(createInitialState({
+      rule: imported.rule,
+      boardSize: imported.boardSize,
+      winLength: WIN_COUNT,
+      openingRule: OpeningRule.None,
+      timeControl: NO_TIME_CONTROL,
+    }), moves);
+    // Results decided away from the board come from the record
+    dispatch({ type: 'load', board: { ...replayed, result: replayed.result ?? (moves.length > 0 ? imported.result : null) } });
+    setGameMode(GameMode.Local);
+    const line = lineThrough(imported.tree, ROOT);
+    setReview({ tree: imported.tree, node: line.length > 0 ? line[line.length - 1] : ROOT });
+    setIsReviewing(moves.length > 0);
+    setNotationTab(null);
+  };
+
+  const toggleStar = (saved: SavedGame) => {
+    setStarred(saved.id, !saved.starred)
+      .then(() => setLibraryGames(prev => prev && prev.map(game => game.id === saved.id ? { ...game, starred: !saved.starred } : game)))
+      .catch(error => console.error("Failed to star the game", error));
+  };
+
+  const removeSavedGame = (saved: SavedGame) => {
+    if (!window.confirm('删除这局棋？删除后无法恢复。')) return;
+    deleteGame(saved.id)
+      .then(() => setLibraryGames(prev => prev && prev.filter(game => game.id !== saved.id)))
+      .catch(error => console.error("Failed to delete the game", error));
+  };
+
+  // Any change to the position makes the analysis stale
+  useEffect(() => {
+    analysisTask.current?.cancel();
+    analysisTask.current = null;
+    setIsAnalysing(false);
+    setAnalysis(null);
+    setHints(null);
+  }, [shownBoard.grid]);
+
+  // The mistake analysis belongs to one game record
+  useEffect(() => {
+    annotationTask.current?.cancel();
+    annotationTask.current = null;
+    setIsAnnotating(false);
+    setAnnotations(null);
+  }, [boardState.history]);
+
+  // Reveal the winning sequence one move at a time
+  useEffect(() => {
+    if (!analysis?.result || analysis.shown >= analysis.result.line.length) return;
+    const timer = setTimeout(() => {
+      setAnalysis(prev => prev && { ...prev, shown: prev.shown + 1 });
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [analysis]);
+
+  const handleFindForcedWin = () => {
+    if (shownBoard.result || shownBoard.opening || isThinking || isAnalysing) return;
+    setIsAnalysing(true);
+    const task = requestForcedWin(shownBoard.grid, shownBoard.currentPlayer, shownBoard.rule, shownBoard.winLength);
+    analysisTask.current = task;
+    task.promise
+      .then(({ result }) => {
+        if (analysisTask.current === task) setAnalysis({ result, shown: 0 });
+      })
+      .catch(error => {
+        if (error.message !== AI_CANCELLED) console.error("Forced-win analysis failed", error);
+      })
+      .finally(() => {
+        if (analysisTask.current !== task) return;
+        analysisTask.current = null;
+        setIsAnalysing(false);
+      });
+  };
+
+  // Hints are for practice, not for games against other people
+  const canHint = !isNetworked && !spectating && gameMode !== GameMode.AIMatch && gameMode !== GameMode.Puzzle
+    && !shownBoard.result && !shownBoard.opening && !isThinking && !isAiTurn;
+
+  const toggleHints = () => {
+    if (hints) return setHints(null);
+    if (canHint) setHints(getHints(shownBoard.grid, shownBoard.currentPlayer, shownBoard.rule, shownBoard.winLength));
+  };
+
+  const canAnnotate = !!boardState.result && boardState.history.length - boardState.fixedMoves >= 2 && !isAnnotating;
+
+  // Score every move of the finished game, then show the marks in review
+  const handleAnnotateGame = () => {
+    if (!canAnnotate) return;
+    setIsAnnotating(true);
+    const task = requestGameAnalysis(boardState);
+    annotationTask.current = task;
+    task.promise
+      .then(reviews => {
+        if (annotationTask.current !== task) return;
+        const added = addLine(review?.tree ?? createMoveTree(), boardState.history);
+        setReview(added);
+        setAnnotations({ nodes: pathTo(added.tree, added.node).slice(boardState.fixedMoves), reviews });
+        setIsReviewing(true);
+      })
+      .catch(error => {
+        if (error.message !== AI_CANCELLED) console.error("Game analysis failed", error);
+      })
+      .finally(() => {
+        if (annotationTask.current !== task) return;
+        annotationTask.current = null;
+        setIsAnnotating(false);
+      });
+  };
+
+  // Start (or restart) a puzzle; its link stays in the address bar
+  const loadPuzzle = (puzzle: Puzzle) => {
+    resetGame();
+    dispatch({ type: 'load', board: createPuzzleBoard(puzzle) });
+    setGameMode(GameMode.Puzzle);
+    setPuzzleRun({ puzzle, status: 'playing', revealed: false });
+    setShowSolution(false);
+    window.history.replaceState(null, '', puzzleLink(puzzle));
+  };
+
+  // Today's puzzle, or once that is solved the first one still open
+  const firstPuzzle = (): Puzzle => {
+    const daily = dailyPuzzle();
+    if (!puzzleProgress[daily.id]?.solvedAt) return daily;
+    return PUZZLES.find(puzzle => !puzzleProgress[puzzle.id]?.solvedAt) ?? daily;
+  };
+
+  const finishPuzzle = (solved: boolean) => {
+    if (!puzzleRun) return;
+    setPuzzleRun({ ...puzzleRun, status: solved ? 'solved' : 'failed' });
+    // Solving after looking at the answer does not count
+    setPuzzleProgress(recordPuzzleAttempt(puzzleRun.puzzle.id, solved && !puzzleRun.revealed));
+  };
+
+  // The answer is shown from the puzzle position, so looking at it starts over
+  const togglePuzzleSolution = () => {
+    if (!puzzleRun) return;
+    if (showSolution) return setShowSolution(false);
+    loadPuzzle(puzzleRun.puzzle);
+    setPuzzleRun({ puzzle: puzzleRun.puzzle, status: 'playing', revealed: true });
+    setShowSolution(true);
+  };
+
+  const copyPuzzleLink = () => {
+    if (!puzzleRun) return;
+    navigator.clipboard.writeText(puzzleLink(puzzleRun.puzzle)).then(() => {
+      setPuzzleNotice('已复制题目链接');
+      setTimeout(() => setPuzzleNotice(''), 3000);
+    });
   };
 
-  const generateShareLink = () => {
-    const serialized = serializeBoard(boardState.grid);
+  const puzzleMovesUsed = puzzleRun
+    ? boardState.history.slice(puzzleRun.puzzle.moves.length).filter(move => move.player === puzzleAttackerColor).length
+    : 0;
+  const solutionShown = showSolution && !!puzzleRun && !isReviewing && boardState.history.length === puzzleRun.puzzle.moves.length;
+
+  const openEditor = () => {
+    setEditor({ grid: createEmptyGrid(boardState.boardSize), toMove: Player.Black, handicap: null, brush: Player.Black });
+    setIsReviewing(false);
+    setHints(null);
+    setAnalysis(null);
+  };
+
+  // A click places the brush's stone, or takes away a stone of that colour
+  const editCell = (row: number, col: number) => {
+    if (!editor) return;
+    const grid = editor.grid.map(line => [...line]);
+    grid[row][col] = grid[row][col] === editor.brush ? Player.None : editor.brush;
+    setEditor({ ...editor, grid });
+  };
+
+  // A handicap game starts from Black's stones alone, with White to move
+  const setHandicap = (stones: number | null) => {
+    if (!editor) return;
+    if (stones === null) return setEditor({ ...editor, handicap: null, toMove: Player.Black });
+    const grid = createEmptyGrid(boardState.boardSize);
+    for (const { row, col } of handicapPoints(boardState.boardSize, stones)) grid[row][col] = Player.Black;
+    setEditor({ ...editor, grid, handicap: stones, toMove: Player.White });
+  };
+
+  const editorProblems = useMemo(
+    () => (editor ? validatePosition(editor.grid, editor.toMove, getSettings(boardState), editor.handicap !== null) : []),
+    [editor, boardState]
+  );
+
+  // Play the position set up, here or against the AI, or send it by link
+  const startFromEditor = (start: EditorStart) => {
+    if (!editor || editorProblems.length > 0) return;
+    const board = createSetupBoard(editor.grid, editor.toMove, getSettings(boardState));
+    const mode = start === 'ai' ? GameMode.AI : start === 'remote' ? GameMode.Remote : GameMode.Local;
+    resetGame();
+    dispatch({ type: 'load', board });
+    setGameMode(mode);
+    // Against the AI you take Black in a handicap game, else the side to move
+    if (mode === GameMode.AI) setAiSeat(otherSeat(seatOf(board, editor.handicap !== null ? Player.Black : editor.toMove)));
+  };
+
+  // Puzzles: a five ends the attempt; any other attacking move gets the best
+  // defence, which also tells whether the forced win still stands
+  useEffect(() => {
+    if (gameMode !== GameMode.Puzzle || !puzzleRun || puzzleRun.status !== 'playing') return;
+    if (boardState.result) {
+      finishPuzzle(boardState.result.winner === puzzleAttackerColor);
+      return;
+    }
+    if (boardState.currentPlayer === puzzleAttackerColor) return;
+
+    const snapshot = boardState;
+    const task = requestPuzzleReply(snapshot.grid, snapshot.currentPlayer, snapshot.rule, snapshot.winLength,
+      puzzleRun.puzzle.kind, puzzleRun.puzzle.maxMoves - puzzleMovesUsed);
+    setIsThinking(true);
+    task.promise
+      .then(({ reply, lost }) => {
+        if (reply) dispatch({ type: 'move', row: reply.row, col: reply.col, expected: snapshot, at: Date.now() });
+        if (lost) finishPuzzle(false);
+      })
+      .catch(error => {
+        if (error.message !== AI_CANCELLED) console.error("Puzzle defence failed", error);
+      })
+      .finally(() => setIsThinking(false));
+    return () => {
+      task.cancel();
+      setIsThinking(false);
+    };
+  }, [boardState, puzzleRun]);
+
+  // Header summary of a live network game
+  const liveGame = gameMode === GameMode.Online && onlineRoom
+    ? { label: onlineRoom.code, seat: onlineRoom.seat, connected: onlineStatus === 'open', presence: onlinePresence ?? { [Seat.First]: false, [Seat.Second]: false } }
+    : gameMode === GameMode.Peer && peerSeat
+      ? { label: 'P2P', seat: peerSeat, connected: peerStatus === 'open', presence: { [peerSeat]: true, [otherSeat(peerSeat)]: peerStatus === 'open' } as Record<Seat, boolean> }
+      : null;
+
+  const generateShareLink = (watch: boolean = false) => {
+    const serialized = serializeBoard(boardState, gameMode, remoteGameId, watch);
     const url = `${window.location.origin}${window.location.pathname}#${serialized}`;
     return url;
   };
 
-  const copyToClipboard = () => {
-    const url = generateShareLink();
+  const copyToClipboard = (watch: boolean = false) => {
+    const url = generateShareLink(watch);
     navigator.clipboard.writeText(url).then(() => {
-      setCopyFeedback('已复制链接！发送给好友即可继续对战');
+      setCopyFeedback(watch ? '已复制观战链接！对方只能观看，不能落子' : '已复制链接！发送给好友即可继续对战');
       setTimeout(() => setCopyFeedback(''), 3000);
     });
   };
@@ -150,7 +1032,53 @@ function App() {
           <div className="w-3 h-3 bg-black rounded-full"></div>
           <div className="w-3 h-3 bg-stone-300 border border-stone-400 rounded-full -ml-1"></div>
           Zen Gomoku
+          <span className="ml-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium" title={getRules(boardState.rule, boardState.winLength).description}>
+            {getRules(boardState.rule).label}
+          </span>
+          {spectating && (
+            <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-medium flex items-center gap-1">
+              <Eye size={12} /> 观战中
+            </span>
+          )}
+          {(boardState.boardSize !== BOARD_SIZE || boardState.winLength !== WIN_COUNT) && (
+            <span className="px-2 py-0.5 rounded-full bg-stone-100 text-stone-600 text-xs font-medium">
+              {boardState.boardSize}路 · {boardState.winLength}连
+            </span>
+          )}
         </h1>
+        {/* Live network games: room, who is connected and whose turn it is */}
+        {liveGame && (
+          <div className="ml-auto mr-2 flex items-center gap-3 text-xs text-stone-600">
+            <span className="font-mono font-bold">{liveGame.label}</span>
+            {[liveGame.seat, otherSeat(liveGame.seat)].map(seat => (
+              <span key={seat} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-full ${liveGame.presence[seat] ? 'bg-emerald-500' : 'bg-stone-300'}`} />
+                {seatName(seat)}
+              </span>
+            ))}
+            <span className={`px-2 py-0.5 rounded-full font-medium ${
+              !liveGame.connected ? 'bg-red-100 text-red-700' : isOpponentTurn ? 'bg-stone-100' : 'bg-emerald-100 text-emerald-800'
+            }`}>
+              {!liveGame.connected
+                ? (gameMode === GameMode.Online ? '重新连接中...' : '未连接')
+                : boardState.result ? '对局结束' : isOpponentTurn ? '等待对手' : '轮到你'}
+            </span>
+          </div>
+        )}
+        <button
+          onClick={openLibrary}
+          className={`p-2 rounded-full hover:bg-stone-100 text-stone-600 transition ${liveGame ? '' : 'ml-auto'}`}
+          title="棋谱库"
+        >
+          <Library size={24} />
+        </button>
+        <button
+          onClick={() => setShowStats(true)}
+          className="p-2 rounded-full hover:bg-stone-100 text-stone-600 transition"
+          title={`战绩 · ${profile.name}`}
+        >
+          <BarChart3 size={24} />
+        </button>
         <button 
           onClick={() => setShowSettings(!showSettings)}
           className="p-2 rounded-full hover:bg-stone-100 text-stone-600 transition"
@@ -159,6 +1087,43 @@ function App() {
         </button>
       </header>
 
+      {/* Game Library */}
+      {showLibrary && (
+        <LibraryPanel
+          games={libraryGames}
+          currentId={libraryId}
+          onResume={(saved) => openSavedGame(saved, true)}
+          onReview={(saved) => openSavedGame(saved, false)}
+          onStar={toggleStar}
+          onDelete={removeSavedGame}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* Game records: import and export */}
+      {notationTab && (
+        <NotationPanel
+          board={boardState}
+          info={exportInfo()}
+          initialTab={notationTab}
+          onImport={openImportedGame}
+          onClose={() => setNotationTab(null)}
+        />
+      )}
+
+      {/* Profiles and Stats */}
+      {showStats && (
+        <StatsPanel
+          profile={profile}
+          profiles={getProfiles()}
+          onSwitch={(id) => setProfile(setActiveProfile(id))}
+          onCreate={(name) => setProfile(createProfile(name))}
+          onRename={(name) => setProfile(renameProfile(profile.id, name))}
+          onDelete={(id) => setProfile(deleteProfile(id))}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -168,16 +1133,94 @@ function App() {
             </h2>
             
             <div className="mb-6">
-              <label className="block text-sm font-medium text-gray-700 mb-2">Google Gemini API Key</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">"Hard" LLM Provider</label>
+              <div className="flex gap-2">
+                <select
+                  value={llmSettings.provider}
+                  onChange={(e) => saveLlmSettings({ provider: e.target.value as LLMSettings['provider'], model: '' })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                >
+                  {LLM_PROVIDERS.map(provider => (
+                    <option key={provider} value={provider}>{LLM_PROVIDER_LABELS[provider]}</option>
+                  ))}
+                </select>
+                <input
+                  value={llmSettings.model}
+                  onChange={(e) => saveLlmSettings({ model: e.target.value })}
+                  placeholder={DEFAULT_LLM_MODELS[llmSettings.provider]}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                />
+              </div>
+              {llmSettings.provider === 'openai' && (
+                <input
+                  value={llmSettings.baseUrl}
+                  onChange={(e) => saveLlmSettings({ baseUrl: e.target.value.trim() })}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  className="mt-2 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                />
+              )}
               <input 
                 type="password"
-                value={apiKey}
-                onChange={(e) => saveApiKey(e.target.value)}
-                placeholder="Enter your API Key for AI mode"
-                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
+                value={llmSettings.apiKey}
+                onChange={(e) => saveLlmSettings({ apiKey: e.target.value })}
+                placeholder={llmSettings.provider === 'gemini' ? 'Enter your Gemini API Key' : 'API Key (optional for local servers)'}
+                className="mt-2 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
               />
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                Temperature
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={llmSettings.temperature}
+                  onChange={(e) => saveLlmSettings({ temperature: Number(e.target.value) })}
+                  className="flex-1 accent-amber-600"
+                />
+                <span className="w-8 text-right font-mono">{llmSettings.temperature.toFixed(1)}</span>
+              </label>
               <p className="text-xs text-gray-500 mt-2">
-                Required for "Hard" (Gemini) AI difficulty. The key is stored locally in your browser.
+                Used by the "Hard" AI difficulty. The OpenAI-compatible provider works with any chat completions endpoint, e.g. a local Ollama or llama.cpp server. Settings are stored locally in your browser.
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">"Master" Engine Budget</label>
+              <div className="flex gap-2">
+                <select
+                  value={engineOptions.timeLimitMs}
+                  onChange={(e) => saveEngineOptions({ timeLimitMs: Number(e.target.value) })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                >
+                  {[500, 1000, 1500, 3000, 5000, 10000].map(ms => (
+                    <option key={ms} value={ms}>{ms / 1000}s per move</option>
+                  ))}
+                </select>
+                <select
+                  value={engineOptions.maxDepth}
+                  onChange={(e) => saveEngineOptions({ maxDepth: Number(e.target.value) })}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                >
+                  {[2, 4, 6, 8, 10, 12, 16].map(depth => (
+                    <option key={depth} value={depth}>Max depth {depth}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                The local engine stops at whichever limit it reaches first. More time plays stronger.
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">"Engine" Bridge Address</label>
+              <input
+                value={engineOptions.bridgeUrl ?? ''}
+                onChange={(e) => saveEngineOptions({ bridgeUrl: e.target.value.trim() || undefined })}
+                placeholder={DEFAULT_BRIDGE_URL}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Play against any Gomocup (Piskvork) engine: start <code>npm run engine-bridge -- path/to/engine</code> on this computer. It gets the time per move set above.
               </p>
             </div>
 
@@ -216,11 +1259,35 @@ function App() {
             >
               <Globe size={16} /> <span className="whitespace-nowrap">远程好友</span>
             </button>
+            <button 
+              onClick={() => { setGameMode(GameMode.Online); resetGame(); }}
+              className={`flex-1 min-w-[100px] px-3 py-2 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition ${gameMode === GameMode.Online ? 'bg-amber-100 text-amber-800' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Wifi size={16} /> <span className="whitespace-nowrap">实时对战</span>
+            </button>
+            <button 
+              onClick={() => { setGameMode(GameMode.Peer); resetGame(); }}
+              className={`flex-1 min-w-[100px] px-3 py-2 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition ${gameMode === GameMode.Peer ? 'bg-amber-100 text-amber-800' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Link2 size={16} /> <span className="whitespace-nowrap">点对点</span>
+            </button>
+            <button 
+              onClick={() => { setGameMode(GameMode.AIMatch); resetGame(); }}
+              className={`flex-1 min-w-[100px] px-3 py-2 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition ${gameMode === GameMode.AIMatch ? 'bg-amber-100 text-amber-800' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Swords size={16} /> <span className="whitespace-nowrap">AI 对弈</span>
+            </button>
+            <button
+              onClick={() => loadPuzzle(puzzleRun?.puzzle ?? firstPuzzle())}
+              className={`flex-1 min-w-[100px] px-3 py-2 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition ${gameMode === GameMode.Puzzle ? 'bg-amber-100 text-amber-800' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <PuzzleIcon size={16} /> <span className="whitespace-nowrap">解题</span>
+            </button>
           </div>
           
           {/* AI Difficulty Selector (Only visible in AI mode) */}
           {gameMode === GameMode.AI && (
-            <div className="flex gap-2 animate-in fade-in slide-in-from-top-2 duration-300">
+            <div className="flex flex-wrap justify-center gap-2 animate-in fade-in slide-in-from-top-2 duration-300">
                <button
                  onClick={() => setDifficulty(Difficulty.Easy)}
                  className={`px-3 py-1 rounded-full text-xs font-medium border transition flex items-center gap-1 ${difficulty === Difficulty.Easy ? 'bg-green-100 border-green-300 text-green-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
@@ -236,18 +1303,189 @@ function App() {
                <button
                  onClick={() => setDifficulty(Difficulty.Hard)}
                  className={`px-3 py-1 rounded-full text-xs font-medium border transition flex items-center gap-1 ${difficulty === Difficulty.Hard ? 'bg-purple-100 border-purple-300 text-purple-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
-                 title={!apiKey ? "Requires API Key in settings" : "Powered by Gemini"}
+                 title={!llmReady(llmSettings) ? "Requires API Key in settings" : `Powered by ${describeLLM(llmSettings)}`}
+               >
+                 <Sparkles size={12} /> Hard {!llmReady(llmSettings) && '(No Key)'}
+               </button>
+               <button
+                 onClick={() => setDifficulty(Difficulty.Master)}
+                 className={`px-3 py-1 rounded-full text-xs font-medium border transition flex items-center gap-1 ${difficulty === Difficulty.Master ? 'bg-red-100 border-red-300 text-red-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                 title="Local search engine, no API key needed"
+               >
+                 <Cpu size={12} /> Master
+               </button>
+               <button
+                 onClick={() => setDifficulty(Difficulty.Engine)}
+                 className={`px-3 py-1 rounded-full text-xs font-medium border transition flex items-center gap-1 ${difficulty === Difficulty.Engine ? 'bg-stone-200 border-stone-400 text-stone-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                 title="Your own Gomocup engine, through npm run engine-bridge"
+               >
+                 <Plug size={12} /> Engine
+               </button>
+               <button
+                 onClick={() => { setAiSeat(aiSeat === Seat.First ? Seat.Second : Seat.First); resetGame(); }}
+                 className="px-3 py-1 rounded-full text-xs font-medium border transition bg-white border-gray-200 text-gray-500 hover:bg-gray-50"
+                 title="切换谁先手（开局时由先手方摆子）"
                >
-                 <Sparkles size={12} /> Hard {(!apiKey) && '(No Key)'}
+                 {aiSeat === Seat.First ? 'AI 先手' : '我先手'}
                </button>
             </div>
           )}
 
-          <div className="flex items-center gap-4">
+          {/* AI match: the level on each side and how fast to play */}
+          {gameMode === GameMode.AIMatch && (
+            <div className="flex flex-wrap justify-center items-center gap-2 text-xs animate-in fade-in slide-in-from-top-2 duration-300">
+              {[Seat.First, Seat.Second].map(seat => (
+                <label key={seat} className="flex items-center gap-1 text-gray-500">
+                  {seat === Seat.First ? '先手' : '后手'}
+                  <select
+                    value={matchLevels[seat]}
+                    onChange={(e) => setMatchLevels({ ...matchLevels, [seat]: e.target.value as Difficulty })}
+                    className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+                  >
+                    {Object.values(Difficulty).map(level => (
+                      <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="flex items-center gap-1 text-gray-500">
+                每步间隔
+                <select
+                  value={matchDelay}
+                  onChange={(e) => setMatchDelay(Number(e.target.value))}
+                  className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  {AI_MATCH_DELAY_OPTIONS.map(ms => (
+                    <option key={ms} value={ms}>{ms === 0 ? '不停顿' : `${ms / 1000} 秒`}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => setMatchPaused(!matchPaused)}
+                disabled={!!boardState.result}
+                className="flex items-center gap-1 px-3 py-1 rounded-full font-medium border transition bg-white border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+              >
+                {matchPaused ? <><Play size={12} /> 继续</> : <><Pause size={12} /> 暂停</>}
+              </button>
+            </div>
+          )}
+
+          {/* Rule Selector */}
+          <div className="flex flex-wrap justify-center items-center gap-2 text-xs">
+            <span className="text-gray-500 flex items-center gap-1"><Scale size={12} /> 规则:</span>
+            {RULE_VARIANTS.map(variant => (
+              <button
+                key={variant}
+                onClick={() => resetGame({ rule: variant })}
+                className={`px-3 py-1 rounded-full font-medium border transition ${boardState.rule === variant ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                title={getRules(variant).description}
+              >
+                {getRules(variant).label}
+              </button>
+            ))}
+          </div>
+
+          {/* Board Size & Win Length */}
+          <div className="flex flex-wrap justify-center items-center gap-2 text-xs">
+            <span className="text-gray-500 flex items-center gap-1"><Grid3x3 size={12} /> 棋盘:</span>
+            <select
+              value={boardState.boardSize}
+              onChange={(e) => resetGame({ boardSize: Number(e.target.value) })}
+              className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+            >
+              {BOARD_SIZE_OPTIONS.map(size => (
+                <option key={size} value={size}>{size} × {size}</option>
+              ))}
+            </select>
+            <select
+              value={boardState.winLength}
+              onChange={(e) => resetGame({ winLength: Number(e.target.value) })}
+              className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+            >
+              {WIN_COUNT_OPTIONS.filter(n => n <= boardState.boardSize).map(n => (
+                <option key={n} value={n}>{n} 子连线获胜</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Opening Protocol Selector */}
+          <div className="flex flex-wrap justify-center items-center gap-2 text-xs">
+            <span className="text-gray-500 flex items-center gap-1"><Shuffle size={12} /> 开局:</span>
+            {OPENING_RULES.map(openingRule => (
+              <button
+                key={openingRule}
+                onClick={() => resetGame({ openingRule })}
+                className={`px-3 py-1 rounded-full font-medium border transition ${boardState.openingRule === openingRule ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                title={getOpeningDescription(openingRule)}
+              >
+                {getOpeningLabel(openingRule)}
+              </button>
+            ))}
+          </div>
+
+          {/* Time Control */}
+          <div className="flex flex-wrap justify-center items-center gap-2 text-xs">
+            <span className="text-gray-500 flex items-center gap-1"><Timer size={12} /> 计时:</span>
+            {TIME_CONTROL_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => changeTimeControl(type)}
+                className={`px-3 py-1 rounded-full font-medium border transition ${timeControl.type === type ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+              >
+                {TIME_CONTROL_LABELS[type]}
+              </button>
+            ))}
+            {timeControl.type !== 'none' && (
+              <select
+                value={timeControl.mainMs / 60000}
+                onChange={(e) => changeTimeControl(timeControl.type, { mainMs: Number(e.target.value) * 60000 })}
+                className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {CLOCK_MINUTE_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} 分钟</option>
+                ))}
+              </select>
+            )}
+            {timeControl.type === 'fischer' && (
+              <select
+                value={timeControl.incrementMs / 1000}
+                onChange={(e) => changeTimeControl('fischer', { incrementMs: Number(e.target.value) * 1000 })}
+                className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {CLOCK_INCREMENT_OPTIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>每步加 {seconds} 秒</option>
+                ))}
+              </select>
+            )}
+            {timeControl.type === 'byoyomi' && (
+              <>
+                <select
+                  value={timeControl.periods}
+                  onChange={(e) => changeTimeControl('byoyomi', { periods: Number(e.target.value) })}
+                  className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  {CLOCK_PERIOD_OPTIONS.map(periods => (
+                    <option key={periods} value={periods}>{periods} 次</option>
+                  ))}
+                </select>
+                <select
+                  value={timeControl.periodMs / 1000}
+                  onChange={(e) => changeTimeControl('byoyomi', { periodMs: Number(e.target.value) * 1000 })}
+                  className="px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  {CLOCK_PERIOD_SECONDS_OPTIONS.map(seconds => (
+                    <option key={seconds} value={seconds}>{seconds} 秒读秒</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap justify-center items-center gap-4">
              <div className="text-lg font-semibold flex items-center gap-2">
-                {boardState.winner ? (
-                    <span className="text-green-600 flex items-center gap-2 animate-bounce">
-                        🎉 {boardState.winner === Player.Black ? '黑子' : '白子'} 获胜!
+                {boardState.result ? (
+                    <span className={`text-green-600 flex items-center gap-2 ${boardState.result.reason === 'line' ? 'animate-bounce' : ''}`}>
+                        {describeResult(boardState.result)}
                     </span>
                 ) : (
                     <span className="flex items-center gap-2">
@@ -256,26 +1494,189 @@ function App() {
                            {boardState.currentPlayer === Player.Black ? <div className="w-3 h-3 rounded-full bg-black"/> : <div className="w-3 h-3 rounded-full bg-gray-200 border border-gray-400"/>}
                            {boardState.currentPlayer === Player.Black ? '黑子' : '白子'}
                         </span>
-                        {isThinking && <span className="text-amber-600 text-sm animate-pulse">(思考中...)</span>}
+                        {(gameMode === GameMode.AI || gameMode === GameMode.Online || gameMode === GameMode.AIMatch || gameMode === GameMode.Puzzle || boardState.openingRule !== OpeningRule.None) && (
+                          <span className="text-sm text-gray-500 font-normal">({seatName(seatToMove)})</span>
+                        )}
+                        {isThinking && (
+                          <span className="text-amber-600 text-sm animate-pulse">
+                            (思考中...{thinkingProgress && ` 深度 ${thinkingProgress.depth} · ${formatCoordinates(thinkingProgress.move, boardState.boardSize)}`})
+                          </span>
+                        )}
                     </span>
                 )}
              </div>
+             {boardState.clock && (
+               <ClockDisplay
+                 clock={boardState.clock}
+                 now={now}
+                 names={{ [Seat.First]: seatName(Seat.First), [Seat.Second]: seatName(Seat.Second) } as Record<Seat, string>}
+                 onPauseToggle={gameMode === GameMode.Local && !spectating ? toggleClockPause : undefined}
+               />
+             )}
           </div>
+          {lastMoveSource && !isReviewing && (
+            <p className={`-mt-2 text-xs ${lastMoveSource.fallback ? 'text-amber-600' : 'text-gray-400'}`}>
+              上一手由 {describeMoveSource(lastMoveSource)} 走出
+            </p>
+          )}
+          {aiFailed && (
+            <p className="-mt-2 text-xs text-red-600">
+              AI 出错，没能走出这一手。可以悔棋或重新开始。
+            </p>
+          )}
         </div>
 
+        {/* Opening Protocol Steps */}
+        {boardState.opening && (
+          <OpeningPanel
+            openingRule={boardState.openingRule}
+            phase={boardState.opening}
+            actorName={seatName(seatToMove)}
+            disabled={isThinking || isAiTurn || isOpponentTurn || clockPaused}
+            onAction={handleOpeningAction}
+          />
+        )}
+
+        {/* Online: create or join a room */}
+        {gameMode === GameMode.Online && (
+          <OnlinePanel
+            status={onlineStatus}
+            room={onlineRoom}
+            error={onlineError}
+            relayUrl={relayUrl}
+            onRelayUrlChange={setRelayUrl}
+            onCreate={() => enterOnlineRoom({ settings: networkSettings() })}
+            onJoin={(code) => enterOnlineRoom({ code })}
+            onLeave={leaveOnlineRoom}
+          />
+        )}
+
+        {/* Peer to peer: connect, then requests, offers and chat */}
+        {gameMode === GameMode.Peer && (
+          <PeerPanel
+            status={peerStatus}
+            seat={peerSeat}
+            signal={peerSignal}
+            chat={peerChat}
+            request={peerRequest}
+            notice={peerNotice}
+            finished={!!boardState.result}
+            canTakeback={canPeerTakeback}
+            onHost={() => startPeer({ settings: networkSettings() })}
+            onJoin={(offer) => startPeer({ offer })}
+            onAnswer={answerPeer}
+            onLeave={leavePeer}
+            onChat={sendPeerChat}
+            onTakeback={() => {
+              peerSession.current?.send({ type: 'takeback-request' });
+              setPeerNotice('已请求悔棋，等待对手答复。');
+            }}
+            onDraw={() => {
+              peerSession.current?.send({ type: 'draw-offer' });
+              setPeerNotice('已提议和棋，等待对手答复。');
+            }}
+            onResign={() => peerSeat && peerSession.current?.play({ type: 'resign', seat: peerSeat })}
+            onReply={replyToPeer}
+            onNewGame={() => peerSession.current?.newGame(networkSettings())}
+          />
+        )}
+
+        {/* Puzzles: the task, how the attempt goes, and the whole set */}
+        {gameMode === GameMode.Puzzle && (
+          <PuzzlePanel
+            puzzle={puzzleRun?.puzzle ?? null}
+            status={puzzleRun?.status ?? 'playing'}
+            movesUsed={puzzleMovesUsed}
+            thinking={isThinking}
+            solutionShown={solutionShown}
+            progress={puzzleProgress}
+            notice={puzzleNotice}
+            onSelect={loadPuzzle}
+            onRetry={() => puzzleRun && loadPuzzle(puzzleRun.puzzle)}
+            onToggleSolution={togglePuzzleSolution}
+            onCopyLink={copyPuzzleLink}
+          />
+        )}
+
+        {/* Position editor: stones, side to move, handicap and how to play it */}
+        {editor && (
+          <PositionEditor
+            brush={editor.brush}
+            toMove={editor.toMove}
+            handicap={editor.handicap}
+            problems={editorProblems}
+            onBrush={brush => setEditor({ ...editor, brush })}
+            onToMove={toMove => setEditor({ ...editor, toMove })}
+            onHandicap={setHandicap}
+            onClear={() => setEditor({ ...editor, grid: createEmptyGrid(boardState.boardSize), handicap: null, toMove: Player.Black })}
+            onCopyCurrent={() => setEditor({ ...editor, grid: shownBoard.grid.map(line => [...line]), handicap: null, toMove: shownBoard.currentPlayer })}
+            onStart={startFromEditor}
+            onCancel={() => setEditor(null)}
+          />
+        )}
+
+        {/* Review: move list and navigation */}
+        {isReviewing && review && (
+          <ReviewPanel
+            tree={review.tree}
+            node={review.node}
+            boardSize={boardState.boardSize}
+            onSelect={selectReviewNode}
+            onExit={() => (spectating ? resetGame() : setIsReviewing(false))}
+            spectator={spectating}
+            annotations={annotations}
+            sourceOf={(number, move) => {
+              const source = moveSources[sourceKey(number - 1, move)];
+              return source ? describeMoveSource(source) : null;
+            }}
+          />
+        )}
+
+        {/* Link play: problems with the opened link, or a move out of turn */}
+        {gameMode === GameMode.Remote && (remoteWarnings.length > 0 || remoteNotice) && (
+          <div className="w-full max-w-[600px] bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-start justify-between gap-3">
+            <div className="flex items-start gap-2">
+              <ShieldAlert size={18} className="mt-0.5 flex-shrink-0" />
+              <div>
+                {remoteWarnings.map(warning => <p key={warning}>{REMOTE_WARNING_MESSAGES[warning]}</p>)}
+                {remoteNotice && <p>{remoteNotice}</p>}
+              </div>
+            </div>
+            <button onClick={() => { setRemoteWarnings([]); setRemoteNotice(''); }} className="text-red-400 hover:text-red-600">×</button>
+          </div>
+        )}
+
         {/* Board Area */}
-        <Board 
-          grid={boardState.grid} 
-          onCellClick={handleCellClick}
-          winningLine={boardState.winningLine}
-          lastMove={boardState.history.length > 0 ? boardState.history[boardState.history.length - 1] : null}
-          disabled={!!boardState.winner || isThinking}
-        />
+        {editor ? (
+          <Board
+            grid={editor.grid}
+            onCellClick={handleCellClick}
+            winningLine={null}
+            lastMove={null}
+            disabled={false}
+            editing
+          />
+        ) : (
+          <Board 
+            grid={shownBoard.grid} 
+            onCellClick={handleCellClick}
+            winningLine={shownBoard.winningLine}
+            lastMove={reviewBoard ? reviewBoard.history[reviewBoard.history.length - 1] ?? null : lastMove}
+            disabled={spectating || (reviewBoard
+              ? !!reviewBoard.result
+              : !!boardState.result || isThinking || isAiTurn || isOpponentTurn || clockPaused || openingStep?.type === 'choose' || openingStep?.type === 'declare')}
+            forbiddenPoints={forbiddenPoints}
+            candidateStones={boardState.opening?.candidates}
+            sequenceStones={analysis?.result?.line.slice(0, analysis.shown) ?? (solutionShown ? puzzleRun!.puzzle.solution : undefined)}
+            moveNumbers={reviewBoard?.history}
+            hintStones={hints?.map(({ move, score }) => ({ ...move, label: formatHintScore(score) }))}
+          />
+        )}
 
         {/* Action Buttons */}
         <div className="flex gap-4 w-full max-w-[600px] justify-center">
             <button 
-                onClick={resetGame}
+                onClick={() => (gameMode === GameMode.Puzzle && puzzleRun ? loadPuzzle(puzzleRun.puzzle) : resetGame())}
                 className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-700 transition"
             >
                 <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
@@ -284,7 +1685,125 @@ function App() {
                 <span className="text-xs font-medium">重置</span>
             </button>
 
-            {gameMode === GameMode.Remote && (
+            {hasTakebacks && (
+                <>
+                    <button 
+                        onClick={handleUndo}
+                        disabled={!canUndo}
+                        className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-700 transition disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                            <Undo2 size={24} />
+                        </div>
+                        <span className="text-xs font-medium">悔棋</span>
+                    </button>
+
+                    <button 
+                        onClick={handleRedo}
+                        disabled={!canRedo}
+                        className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-700 transition disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                            <Redo2 size={24} />
+                        </div>
+                        <span className="text-xs font-medium">重做</span>
+                    </button>
+                </>
+            )}
+
+            {(gameMode === GameMode.Local || gameMode === GameMode.AI) && (
+                <button
+                    onClick={handleOfferDraw}
+                    disabled={!canOfferDraw}
+                    className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-700 transition disabled:opacity-40 disabled:pointer-events-none"
+                >
+                    <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                        <Handshake size={24} className={isWeighingDraw ? 'animate-pulse' : ''} />
+                    </div>
+                    <span className="text-xs font-medium">提和</span>
+                </button>
+            )}
+
+            {gameMode !== GameMode.Peer && gameMode !== GameMode.AIMatch && (
+                <button
+                    onClick={handleResign}
+                    disabled={!canResign}
+                    className="flex flex-col items-center gap-1 text-gray-600 hover:text-red-600 transition disabled:opacity-40 disabled:pointer-events-none"
+                >
+                    <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                        <Flag size={24} />
+                    </div>
+                    <span className="text-xs font-medium">认输</span>
+                </button>
+            )}
+
+            <button 
+                onClick={isReviewing ? () => setIsReviewing(false) : startReview}
+                disabled={!isReviewing && !canReview}
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-indigo-600 transition disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <div className={`p-3 rounded-full shadow-md border hover:scale-105 transition-transform ${isReviewing ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-gray-100'}`}>
+                    <History size={24} />
+                </div>
+                <span className="text-xs font-medium">{isReviewing ? '结束复盘' : '复盘'}</span>
+            </button>
+
+            <button
+                onClick={handleAnnotateGame}
+                disabled={!canAnnotate}
+                title="终局后逐手检查失误"
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-indigo-600 transition disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                    <ChartLine size={24} className={isAnnotating ? 'animate-pulse' : ''} />
+                </div>
+                <span className="text-xs font-medium">{isAnnotating ? '分析中...' : '分析'}</span>
+            </button>
+
+            <button
+                onClick={toggleHints}
+                disabled={!hints && !canHint}
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-600 transition disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <div className={`p-3 rounded-full shadow-md border hover:scale-105 transition-transform ${hints ? 'bg-amber-50 border-amber-200 text-amber-600' : 'bg-white border-gray-100'}`}>
+                    <Lightbulb size={24} />
+                </div>
+                <span className="text-xs font-medium">{hints ? '隐藏提示' : '提示'}</span>
+            </button>
+
+            <button 
+                onClick={handleFindForcedWin}
+                disabled={!!shownBoard.result || !!shownBoard.opening || isThinking || isAnalysing || (puzzleRun?.status === 'playing' && !isReviewing)}
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-sky-600 transition disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                    <Crosshair size={24} className={isAnalysing ? 'animate-spin' : ''} />
+                </div>
+                <span className="text-xs font-medium">{isAnalysing ? '分析中...' : '必胜分析'}</span>
+            </button>
+
+            <button
+                onClick={editor ? () => setEditor(null) : openEditor}
+                disabled={spectating || isThinking}
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-sky-600 transition disabled:opacity-40 disabled:pointer-events-none"
+            >
+                <div className={`p-3 rounded-full shadow-md border hover:scale-105 transition-transform ${editor ? 'bg-sky-50 border-sky-200 text-sky-600' : 'bg-white border-gray-100'}`}>
+                    <PencilRuler size={24} />
+                </div>
+                <span className="text-xs font-medium">{editor ? '退出摆棋' : '摆棋'}</span>
+            </button>
+
+            <button 
+                onClick={() => setNotationTab(boardState.history.length > 0 ? 'export' : 'import')}
+                className="flex flex-col items-center gap-1 text-gray-600 hover:text-amber-600 transition"
+            >
+                <div className="p-3 bg-white rounded-full shadow-md border border-gray-100 hover:scale-105 transition-transform">
+                    <FileText size={24} />
+                </div>
+                <span className="text-xs font-medium">棋谱</span>
+            </button>
+
+            {gameMode === GameMode.Remote && !spectating && (
                  <button 
                     onClick={() => setShowShareModal(true)}
                     className="flex flex-col items-center gap-1 text-gray-600 hover:text-green-600 transition"
@@ -297,8 +1816,67 @@ function App() {
             )}
         </div>
 
+        {/* Takeback request (local games): the other player decides */}
+        {takebackRequest && (
+            <div className="w-full max-w-[600px] bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 flex items-center justify-between gap-3">
+                <span>{seatName(takebackRequest)}请求悔棋，{seatName(otherSeat(takebackRequest))}是否同意？</span>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => dispatch({ type: 'undo', count: 1, at: Date.now() })}
+                        className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700 transition"
+                    >
+                        同意
+                    </button>
+                    <button
+                        onClick={() => setTakebackRequest(null)}
+                        className="px-3 py-1 rounded-md bg-white border border-amber-200 hover:bg-amber-100 transition"
+                    >
+                        拒绝
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* Draw offer (local games): the other player decides */}
+        {drawOffer && (
+            <div className="w-full max-w-[600px] bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 flex items-center justify-between gap-3">
+                <span>{seatName(drawOffer)}提议和棋，{seatName(otherSeat(drawOffer))}是否同意？</span>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => dispatch({ type: 'draw', at: Date.now() })}
+                        className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700 transition"
+                    >
+                        同意
+                    </button>
+                    <button
+                        onClick={() => setDrawOffer(null)}
+                        className="px-3 py-1 rounded-md bg-white border border-amber-200 hover:bg-amber-100 transition"
+                    >
+                        拒绝
+                    </button>
+                </div>
+            </div>
+        )}
+        {drawNotice && (
+            <div className="w-full max-w-[600px] bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                {drawNotice}
+            </div>
+        )}
+
+        {/* Forced-win analysis result */}
+        {analysis && (
+            <div className="w-full max-w-[600px] bg-sky-50 border border-sky-100 rounded-lg p-3 text-sm text-sky-800 flex items-center justify-between gap-3">
+                <span>
+                    {analysis.result
+                        ? `${shownBoard.currentPlayer === Player.Black ? '黑子' : '白子'}有必胜 (${analysis.result.kind})：共 ${analysis.result.line.length} 手，棋盘上按顺序标出。`
+                        : `未找到${shownBoard.currentPlayer === Player.Black ? '黑子' : '白子'}的必胜 (VCF/VCT)。`}
+                </span>
+                <button onClick={() => setAnalysis(null)} className="text-sky-400 hover:text-sky-600">×</button>
+            </div>
+        )}
+
         {/* Remote Play Instructions / Share Modal */}
-        {(showShareModal || (gameMode === GameMode.Remote && boardState.history.length > 0 && !boardState.winner)) && (
+        {!spectating && (showShareModal || (gameMode === GameMode.Remote && boardState.history.length > 0 && (!boardState.result || boardState.result.reason === 'resignation'))) && (
             <div className="w-full max-w-[600px] bg-blue-50 border border-blue-100 rounded-lg p-4 mt-2 animate-in fade-in slide-in-from-bottom-2">
                 <div className="flex items-start gap-3">
                     <Info className="text-blue-500 mt-1 flex-shrink-0" size={20} />
@@ -307,12 +1885,29 @@ function App() {
                         <p className="text-xs text-blue-700 mb-3">
                             由于没有服务器，我们使用"链接传递"的方式。你下棋后，点击复制链接，发送给微信/QQ好友。好友打开链接即可看到你的棋局并继续下棋。
                         </p>
+                        {remoteOwned !== null && (
+                            <p className="text-xs text-blue-700 mb-3">
+                                你执{remoteOwned === Player.Black ? '黑' : '白'}，只能在轮到{remoteOwned === Player.Black ? '黑' : '白'}方时落子。
+                            </p>
+                        )}
                         <button 
-                            onClick={copyToClipboard}
+                            onClick={() => copyToClipboard()}
                             className="bg-blue-600 text-white text-sm px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-700 transition w-full justify-center"
                         >
                             <Copy size={16} /> 复制当前棋局链接发给好友
                         </button>
+                        <button 
+                            onClick={() => copyToClipboard(true)}
+                            className="mt-2 bg-white border border-blue-200 text-blue-700 text-sm px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-100 transition w-full justify-center"
+                        >
+                            <Eye size={16} /> 复制观战链接（只读，可发到群里）
+                        </button>
+                        <button 
+                            onClick={() => setNotationTab('export')}
+                            className="mt-2 bg-white border border-blue-200 text-blue-700 text-sm px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-100 transition w-full justify-center"
+                        >
+                            <FileText size={16} /> 导出棋谱（SGF / PSQ / RIF）
+                        </button>
                         {copyFeedback && (
                             <p className="text-center text-green-600 text-xs font-bold mt-2">{copyFeedback}</p>
                         )}
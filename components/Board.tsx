@@ -1,6 +1,6 @@
 import React from 'react';
 import { Player } from '../types';
-import { BOARD_SIZE } from '../constants';
+import { getStarPoints } from '../services/gameLogic';
 import { Circle, Star } from 'lucide-react'; // Using icons for visual flair if needed, but CSS is better for stones
 
 interface BoardProps {
@@ -9,12 +9,22 @@ interface BoardProps {
   winningLine: { row: number, col: number }[] | null;
   lastMove: { row: number, col: number } | null;
   disabled: boolean;
+  forbiddenPoints?: { row: number, col: number }[]; // Points the side to move may not play (Renju, Omok)
+  candidateStones?: { row: number, col: number }[]; // Soosõrv fifth-move offers, drawn as faded Black stones
+  sequenceStones?: { row: number, col: number, player: Player }[]; // Analysis line, drawn as numbered ghost stones
+  moveNumbers?: { row: number, col: number }[]; // Moves in play order; each stone shows its move number (review)
+  hintStones?: { row: number, col: number, label: string }[]; // Suggested points, best first, with a short score label
+  editing?: boolean; // Position editor: every point, stones included, can be clicked
 }
 
-const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove, disabled }) => {
+const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove, disabled, forbiddenPoints = [], candidateStones = [], sequenceStones = [], moveNumbers = [], hintStones = [], editing = false }) => {
+  const size = grid.length;
+  const starPoints = getStarPoints(size);
+  const numberAt = new Map(moveNumbers.map((pos, i) => [`${pos.row}-${pos.col}`, i + 1]));
+
   return (
     <div 
-      className="relative bg-wood-200 shadow-2xl rounded-sm p-1 sm:p-4 select-none"
+      className={`relative bg-wood-200 shadow-2xl rounded-sm p-1 sm:p-4 select-none ${editing ? 'ring-4 ring-sky-400 ring-offset-2' : ''}`}
       style={{
         width: '100%',
         maxWidth: '600px',
@@ -26,8 +36,8 @@ const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove,
         className="w-full h-full relative border-2 border-wood-400 bg-wood-200"
         style={{
           display: 'grid',
-          gridTemplateColumns: `repeat(${BOARD_SIZE}, 1fr)`,
-          gridTemplateRows: `repeat(${BOARD_SIZE}, 1fr)`,
+          gridTemplateColumns: `repeat(${size}, 1fr)`,
+          gridTemplateRows: `repeat(${size}, 1fr)`,
         }}
       >
         {/* Draw internal grid lines using a pseudo-element or separate absolute div could work, 
@@ -38,15 +48,15 @@ const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove,
         
         {/* Grid Lines Layer */}
         <div className="absolute inset-0 pointer-events-none">
-            {Array.from({ length: BOARD_SIZE }).map((_, i) => (
+            {Array.from({ length: size }).map((_, i) => (
                 <React.Fragment key={i}>
                     {/* Horizontal Line */}
                     <div 
                         className="absolute bg-wood-400"
                         style={{
-                            left: `${100 / (BOARD_SIZE * 2)}%`,
-                            right: `${100 / (BOARD_SIZE * 2)}%`,
-                            top: `${(i * 100) / BOARD_SIZE + (100 / (BOARD_SIZE * 2))}%`,
+                            left: `${100 / (size * 2)}%`,
+                            right: `${100 / (size * 2)}%`,
+                            top: `${(i * 100) / size + (100 / (size * 2))}%`,
                             height: '1px',
                         }} 
                     />
@@ -54,23 +64,23 @@ const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove,
                     <div 
                         className="absolute bg-wood-400"
                         style={{
-                            top: `${100 / (BOARD_SIZE * 2)}%`,
-                            bottom: `${100 / (BOARD_SIZE * 2)}%`,
-                            left: `${(i * 100) / BOARD_SIZE + (100 / (BOARD_SIZE * 2))}%`,
+                            top: `${100 / (size * 2)}%`,
+                            bottom: `${100 / (size * 2)}%`,
+                            left: `${(i * 100) / size + (100 / (size * 2))}%`,
                             width: '1px',
                         }} 
                     />
                 </React.Fragment>
             ))}
             
-            {/* 5 star points (Hoshi) for 15x15 */}
-            {[3, 7, 11].map(r => [3, 7, 11].map(c => (
+            {/* Star points (Hoshi) */}
+            {starPoints.map(r => starPoints.map(c => (
                  <div 
                  key={`dot-${r}-${c}`}
                  className="absolute bg-wood-400 rounded-full w-1.5 h-1.5 sm:w-2 sm:h-2 transform -translate-x-1/2 -translate-y-1/2"
                  style={{
-                     left: `${(c * 100) / BOARD_SIZE + (100 / (BOARD_SIZE * 2))}%`,
-                     top: `${(r * 100) / BOARD_SIZE + (100 / (BOARD_SIZE * 2))}%`,
+                     left: `${(c * 100) / size + (100 / (size * 2))}%`,
+                     top: `${(r * 100) / size + (100 / (size * 2))}%`,
                  }}
              />
             )))}
@@ -81,11 +91,18 @@ const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove,
           row.map((cellState, c) => {
             const isLastMove = lastMove?.row === r && lastMove?.col === c;
             const isWinningPiece = winningLine?.some(pos => pos.row === r && pos.col === c);
+            const isForbidden = cellState === Player.None && forbiddenPoints.some(pos => pos.row === r && pos.col === c);
+            const isCandidate = cellState === Player.None && candidateStones.some(pos => pos.row === r && pos.col === c);
+            const sequenceIndex = cellState === Player.None ? sequenceStones.findIndex(pos => pos.row === r && pos.col === c) : -1;
+            const sequenceStone = sequenceIndex >= 0 ? sequenceStones[sequenceIndex] : null;
+            const hintIndex = cellState === Player.None && !sequenceStone ? hintStones.findIndex(pos => pos.row === r && pos.col === c) : -1;
+            const hint = hintIndex >= 0 ? hintStones[hintIndex] : null;
 
             return (
               <div
                 key={`${r}-${c}`}
-                className="relative z-10 flex items-center justify-center cursor-pointer"
+                className={`relative z-10 flex items-center justify-center ${editing ? 'cursor-crosshair' : isForbidden ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                title={isForbidden ? '禁手' : hint ? `提示 ${hintIndex + 1}：${hint.label}` : undefined}
                 onClick={() => !disabled && onCellClick(r, c)}
               >
                 {/* Transparent hit area is essentially the whole cell */}
@@ -107,9 +124,55 @@ const Board: React.FC<BoardProps> = ({ grid, onCellClick, winningLine, lastMove,
                     {cellState === Player.Black && (
                         <div className="absolute top-1/4 left-1/4 w-1/4 h-1/4 bg-gradient-to-br from-gray-600 to-transparent rounded-full opacity-50" />
                     )}
+
+                    {/* Move number */}
+                    {numberAt.has(`${r}-${c}`) && (
+                        <span className={`absolute inset-0 flex items-center justify-center text-[9px] sm:text-xs font-bold pointer-events-none ${cellState === Player.Black ? 'text-white' : 'text-black'}`}>
+                            {numberAt.get(`${r}-${c}`)}
+                        </span>
+                    )}
                   </div>
                 )}
                 
+                {/* Soosõrv fifth-move candidate */}
+                {isCandidate && (
+                  <div className="w-[85%] h-[85%] rounded-full bg-gradient-to-br from-gray-700 to-black opacity-40 ring-2 ring-amber-400" />
+                )}
+
+                {/* Analysis sequence stone, numbered in move order */}
+                {sequenceStone && (
+                  <div
+                    className={`
+                      w-[85%] h-[85%] rounded-full opacity-70 ring-2 ring-sky-400 flex items-center justify-center
+                      text-[10px] sm:text-xs font-bold pointer-events-none
+                      ${sequenceStone.player === Player.Black
+                        ? 'bg-gradient-to-br from-gray-700 to-black text-white'
+                        : 'bg-gradient-to-br from-white to-gray-300 text-black'
+                      }
+                    `}
+                  >
+                    {sequenceIndex + 1}
+                  </div>
+                )}
+
+                {/* Hint, the best one ringed more strongly */}
+                {hint && (
+                  <div
+                    className={`
+                      w-[85%] h-[85%] rounded-full bg-amber-300/40 flex items-center justify-center
+                      text-[8px] sm:text-[10px] font-bold text-amber-900 leading-none pointer-events-none
+                      ${hintIndex === 0 ? 'ring-2 ring-amber-500' : 'ring-1 ring-amber-400'}
+                    `}
+                  >
+                    {hint.label}
+                  </div>
+                )}
+
+                {/* Forbidden point marker */}
+                {isForbidden && !isCandidate && !sequenceStone && !hint && (
+                  <span className="text-red-500 font-bold text-xs sm:text-sm leading-none pointer-events-none">×</span>
+                )}
+
                 {/* Last move marker if empty (shouldn't happen but safe guard) */}
                 {cellState === Player.None && disabled && <div className="hidden" />}
               </div>
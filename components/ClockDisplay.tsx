@@ -0,0 +1,64 @@
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+import { ClockState, Seat } from '../types';
+import { readClock, formatClock, isClockPaused } from '../services/clock';
+
+interface ClockDisplayProps {
+  clock: ClockState;
+  now: number;
+  names: Record<Seat, string>;
+  // Local games only: stop and restart the running clock
+  onPauseToggle?: () => void;
+}
+
+const LOW_TIME_MS = 10000;
+
+const ClockDisplay: React.FC<ClockDisplayProps> = ({ clock, now, names, onPauseToggle }) => {
+  const paused = isClockPaused(clock);
+
+  const face = (seat: Seat) => {
+    const reading = readClock(clock, seat, now);
+    const running = clock.running === seat;
+    const inByoyomi = reading.periodMs !== null && reading.mainMs <= 0;
+    const shown = inByoyomi ? reading.periodMs! : reading.mainMs;
+    const low = shown < LOW_TIME_MS;
+    return (
+      <div
+        key={seat}
+        className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md border text-sm transition ${
+          running && !paused ? 'bg-amber-100 border-amber-300' : 'bg-white border-gray-200'
+        }`}
+      >
+        <span className="text-xs text-gray-500">{names[seat]}</span>
+        {clock.flagged === seat ? (
+          <span className="font-bold text-red-600">超时</span>
+        ) : (
+          <span className={`font-mono font-bold tabular-nums ${low && (running || inByoyomi) ? 'text-red-600' : 'text-gray-800'}`}>
+            {formatClock(shown)}
+          </span>
+        )}
+        {reading.periodMs !== null && (
+          <span className="text-xs text-gray-500" title="剩余读秒次数">×{reading.periods}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <span className="flex items-center gap-1.5">
+      {face(Seat.First)}
+      {face(Seat.Second)}
+      {onPauseToggle && clock.running && (
+        <button
+          onClick={onPauseToggle}
+          className="p-1 rounded-md text-gray-500 hover:bg-gray-100 transition"
+          title={paused ? '继续计时' : '暂停计时'}
+        >
+          {paused ? <Play size={14} /> : <Pause size={14} />}
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default ClockDisplay;
@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface EvaluationGraphProps {
+  evaluations: number[]; // After each move, positive favours Black
+  current: number;       // Moves played in the position shown (0 is the position before the first)
+  onSelect: (moves: number) => void;
+}
+
+// Evaluations run from small positional edges up to a made five; squashing
+// them keeps both readable on one axis
+const SCALE = 3000;
+const WIDTH = 100;
+const HEIGHT = 40;
+
+const yFor = (evaluation: number) => HEIGHT / 2 - (Math.tanh(evaluation / SCALE) * HEIGHT) / 2;
+
+const EvaluationGraph: React.FC<EvaluationGraphProps> = ({ evaluations, current, onSelect }) => {
+  const values = [0, ...evaluations];
+  const step = WIDTH / Math.max(1, evaluations.length);
+  const points = values.map((value, i) => `${i * step},${yFor(value)}`).join(' ');
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    const moves = Math.round(((event.clientX - box.left) / box.width) * evaluations.length);
+    onSelect(Math.max(0, Math.min(evaluations.length, moves)));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      onClick={handleClick}
+      className="w-full h-16 rounded bg-white border border-indigo-100 cursor-pointer"
+    >
+      {/* Black's advantage above the line, White's below */}
+      <polygon points={`0,${HEIGHT / 2} ${points} ${WIDTH},${HEIGHT / 2}`} className="fill-stone-800/20" />
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-indigo-200" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+      <polyline points={points} fill="none" className="stroke-stone-700" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      <line x1={current * step} y1={0} x2={current * step} y2={HEIGHT} className="stroke-indigo-500" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export default EvaluationGraph;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Library, Star, Trash2, Play, History, X } from 'lucide-react';
+import { GameMode, ResultReason, Seat } from '../types';
+import { SavedGame, SavedResult } from '../services/gameLibrary';
+import { getRules } from '../services/rules';
+
+interface LibraryPanelProps {
+  games: SavedGame[] | null; // null while loading
+  currentId: string;
+  onResume: (game: SavedGame) => void;
+  onReview: (game: SavedGame) => void;
+  onStar: (game: SavedGame) => void;
+  onDelete: (game: SavedGame) => void;
+  onClose: () => void;
+}
+
+export const MODE_LABELS: Record<GameMode, string> = {
+  [GameMode.Local]: '本地双人',
+  [GameMode.AI]: '人机对战',
+  [GameMode.Remote]: '远程好友',
+  [GameMode.Online]: '实时对战',
+  [GameMode.Peer]: '点对点',
+  [GameMode.AIMatch]: 'AI 对弈',
+  [GameMode.Puzzle]: '解题',
+};
+
+const RESULT_LABELS: Record<SavedResult, string> = {
+  ongoing: '未完成',
+  black: '黑胜',
+  white: '白胜',
+  draw: '和棋',
+};
+
+// Shown after the result when the game did not end on the board
+const REASON_LABELS: Partial<Record<ResultReason, string>> = {
+  'resignation': '认输',
+  'timeout': '超时',
+  'agreement': '议和',
+};
+
+// Live network games cannot be rejoined later, only looked back on; AI
+// matches are there to be watched, not carried on
+export const canResume = (game: SavedGame): boolean =>
+  game.result === 'ongoing' && game.mode !== GameMode.Online && game.mode !== GameMode.Peer && game.mode !== GameMode.AIMatch;
+
+const formatDate = (time: number): string =>
+  new Date(time).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ games, currentId, onResume, onReview, onStar, onDelete, onClose }) => {
+  const [mode, setMode] = useState<GameMode | 'all'>('all');
+  const [result, setResult] = useState<SavedResult | 'finished' | 'all'>('all');
+  const [starredOnly, setStarredOnly] = useState(false);
+
+  const shown = (games ?? []).filter(game =>
+    (mode === 'all' || game.mode === mode)
+    && (result === 'all' || (result === 'finished' ? game.result !== 'ongoing' : game.result === result))
+    && (!starredOnly || game.starred)
+  );
+
+  const filterClass = 'px-2 py-1 rounded-full border border-gray-200 bg-white text-gray-700 font-medium outline-none focus:ring-2 focus:ring-amber-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Library size={20} /> 棋谱库
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-stone-100 text-stone-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs mb-3">
+          <select value={mode} onChange={(e) => setMode(e.target.value as GameMode | 'all')} className={filterClass}>
+            <option value="all">全部模式</option>
+            {Object.values(GameMode).map(value => (
+              <option key={value} value={value}>{MODE_LABELS[value]}</option>
+            ))}
+          </select>
+          <select value={result} onChange={(e) => setResult(e.target.value as SavedResult | 'finished' | 'all')} className={filterClass}>
+            <option value="all">全部结果</option>
+            <option value="ongoing">未完成</option>
+            <option value="finished">已结束</option>
+            <option value="black">黑胜</option>
+            <option value="white">白胜</option>
+            <option value="draw">和棋</option>
+          </select>
+          <button
+            onClick={() => setStarredOnly(!starredOnly)}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full font-medium border transition ${starredOnly ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+          >
+            <Star size={12} /> 仅看收藏
+          </button>
+          <span className="ml-auto text-gray-400">{shown.length} 局</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+          {games === null && <p className="text-sm text-gray-500 animate-pulse">正在读取...</p>}
+          {games !== null && shown.length === 0 && (
+            <p className="text-sm text-gray-500">{games.length === 0 ? '还没有保存的对局。下过的每一局都会自动保存在这里。' : '没有符合条件的对局。'}</p>
+          )}
+          {shown.map(game => (
+            <div
+              key={game.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border text-sm ${game.id === currentId ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}
+            >
+              <button
+                onClick={() => onStar(game)}
+                title={game.starred ? '取消收藏' : '收藏'}
+                className={game.starred ? 'text-amber-500' : 'text-gray-300 hover:text-amber-400'}
+              >
+                <Star size={16} fill={game.starred ? 'currentColor' : 'none'} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 font-medium text-gray-800">
+                  {game.players[Seat.First]} vs {game.players[Seat.Second]}
+                  <span className={`px-1.5 rounded text-xs ${game.result === 'ongoing' ? 'bg-blue-100 text-blue-700' : 'bg-stone-100 text-stone-600'}`}>
+                    {RESULT_LABELS[game.result]}
+                    {game.board.result && REASON_LABELS[game.board.result.reason] && ` · ${REASON_LABELS[game.board.result.reason]}`}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {formatDate(game.updatedAt)} · {MODE_LABELS[game.mode]} · {getRules(game.board.rule).label} · {game.board.boardSize}路 · {game.moveCount} 手
+                </div>
+              </div>
+              {canResume(game) && (
+                <button
+                  onClick={() => onResume(game)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-amber-600 text-white text-xs hover:bg-amber-700 transition"
+                >
+                  <Play size={12} /> 继续
+                </button>
+              )}
+              <button
+                onClick={() => onReview(game)}
+                disabled={game.moveCount === 0}
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-gray-200 text-gray-700 text-xs hover:bg-gray-50 disabled:opacity-40 transition"
+              >
+                <History size={12} /> 复盘
+              </button>
+              <button
+                onClick={() => onDelete(game)}
+                title="删除"
+                className="p-1 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 transition"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryPanel;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, X, Copy, Download, Upload } from 'lucide-react';
+import { BoardState } from '../types';
+import {
+  NotationFormat, NOTATION_FORMATS, NOTATION_LABELS, NOTATION_EXTENSIONS, ImportedGame, ExportInfo, parseGames, writeGame, importedMoves,
+  exportProblem, EXPORT_PROBLEM_MESSAGES,
+} from '../services/notation';
+import { getRules } from '../services/rules';
+
+interface NotationPanelProps {
+  board: BoardState;
+  info: ExportInfo;
+  initialTab: 'export' | 'import';
+  onImport: (game: ImportedGame) => void;
+  onClose: () => void;
+}
+
+const NotationPanel: React.FC<NotationPanelProps> = ({ board, info, initialTab, onImport, onClose }) => {
+  const [tab, setTab] = useState<'export' | 'import'>(initialTab);
+  const [format, setFormat] = useState<NotationFormat>('sgf');
+  const [feedback, setFeedback] = useState<string>('');
+  const [input, setInput] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  // A file holding several games (a RIF database, an SGF collection): the player picks one
+  const [choices, setChoices] = useState<ImportedGame[] | null>(null);
+
+  const problem = exportProblem(format, board);
+  const exported = useMemo(() => (problem ? '' : writeGame(format, board, info)), [problem, format, board, info]);
+
+  const copy = () => {
+    navigator.clipboard.writeText(exported).then(() => {
+      setFeedback('已复制棋谱');
+      setTimeout(() => setFeedback(''), 3000);
+    });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exported], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `gomoku-${new Date().toISOString().slice(0, 10)}.${NOTATION_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const read = (text: string) => {
+    setChoices(null);
+    try {
+      const games = parseGames(text);
+      setError('');
+      if (games.length === 1) onImport(games[0]);
+      else setChoices(games);
+    } catch (e) {
+      console.error("Failed to read the game record", e);
+      setError('无法读取棋谱，请检查格式。');
+    }
+  };
+
+  const readFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      setInput(text.length > 20000 ? '' : text);
+      read(text);
+    });
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-full font-medium transition ${active ? 'bg-amber-100 text-amber-800' : 'text-gray-500 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <FileText size={20} /> 棋谱
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-stone-100 text-stone-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 text-sm mb-3">
+          <button onClick={() => setTab('export')} className={tabClass(tab === 'export')}>导出</button>
+          <button onClick={() => setTab('import')} className={tabClass(tab === 'import')}>导入</button>
+        </div>
+
+        {tab === 'export' ? (
+          <div className="flex flex-col gap-2 text-sm min-h-0">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as NotationFormat)}
+              className="px-2 py-1 rounded-md border border-gray-200 bg-white font-medium outline-none focus:ring-2 focus:ring-amber-500"
+            >
+              {NOTATION_FORMATS.map(value => (
+                <option key={value} value={value} disabled={!!exportProblem(value, board)}>{NOTATION_LABELS[value]}</option>
+              ))}
+            </select>
+            <textarea
+              readOnly
+              value={exported}
+              rows={8}
+              className="w-full p-2 rounded-md border border-gray-200 font-mono text-xs bg-stone-50 resize-none"
+            />
+            {problem && <p className="text-xs text-red-600">{EXPORT_PROBLEM_MESSAGES[problem]}</p>}
+            {format === 'sgf' && info.tree && (
+              <p className="text-xs text-gray-500">复盘中试下的变化也会写进 SGF。</p>
+            )}
+            <div className="flex gap-2">
+              <button onClick={copy} disabled={!!problem} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-40 transition">
+                <Copy size={16} /> 复制
+              </button>
+              <button onClick={download} disabled={!!problem} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-40 transition">
+                <Download size={16} /> 下载文件
+              </button>
+            </div>
+            {feedback && <p className="text-center text-green-600 text-xs font-bold">{feedback}</p>}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2 text-sm min-h-0">
+            <p className="text-xs text-gray-500">
+              粘贴棋谱，或选择文件。支持着法列表（如 h8 i9 h9）、Piskvork PSQ、SGF 和 RIF 数据库，导入后在复盘中打开。
+            </p>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={6}
+              placeholder="h8 i9 h9 ..."
+              className="w-full p-2 rounded-md border border-gray-200 font-mono text-xs resize-none outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => read(input)}
+                disabled={!input.trim()}
+                className="flex-1 px-3 py-2 rounded-lg bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-40 transition"
+              >
+                导入
+              </button>
+              <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 transition cursor-pointer">
+                <Upload size={16} /> 选择文件
+                <input
+                  type="file"
+                  accept=".txt,.psq,.sgf,.rif,.xml"
+                  className="hidden"
+                  onChange={(e) => {
+                    readFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            {choices && (
+              <div className="flex-1 overflow-y-auto flex flex-col gap-1 border-t border-gray-100 pt-2">
+                <p className="text-xs text-gray-500">共 {choices.length} 局，选择要打开的一局：</p>
+                {choices.map((game, i) => (
+                  <button
+                    key={i}
+                    onClick={() => onImport(game)}
+                    className="text-left px-2 py-1 rounded-md hover:bg-amber-50 border border-gray-100"
+                  >
+                    <span className="font-medium text-gray-800">{game.title}</span>
+                    <span className="text-xs text-gray-500"> · {getRules(game.rule).label} · {game.boardSize}路 · {importedMoves(game).length} 手</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotationPanel;
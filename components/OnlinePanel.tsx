@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Wifi, Copy, LogOut } from 'lucide-react';
+import { Seat } from '../types';
+import { OnlineStatus } from '../services/onlineClient';
+import { OnlineError } from '../services/onlineProtocol';
+
+interface OnlinePanelProps {
+  status: OnlineStatus;
+  room: { code: string; seat: Seat } | null;
+  error: OnlineError | null;
+  relayUrl: string;
+  onRelayUrlChange: (url: string) => void;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+}
+
+const ERROR_MESSAGES: Record<OnlineError, string> = {
+  'not-found': '找不到这个房间，请检查房间号。',
+  'full': '房间已满。',
+  'bad-message': '服务器无法识别请求。',
+  'not-your-turn': '还没轮到你，这步没有被接受。',
+  'illegal-action': '这步不合规则，没有被接受。',
+};
+
+const OnlinePanel: React.FC<OnlinePanelProps> = ({ status, room, error, relayUrl, onRelayUrlChange, onCreate, onJoin, onLeave }) => {
+  const [code, setCode] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const copyCode = () => {
+    if (!room) return;
+    navigator.clipboard.writeText(room.code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="w-full max-w-[600px] bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center gap-2 font-bold text-emerald-800 mb-2">
+        <Wifi size={16} /> 实时对战
+      </div>
+
+      {room ? (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-emerald-800">
+            房间号
+            <span className="font-mono text-lg font-bold tracking-widest">{room.code}</span>
+            <button onClick={copyCode} title="复制房间号" className="p-1 rounded hover:bg-emerald-100 text-emerald-600">
+              <Copy size={14} />
+            </button>
+            {copied && <span className="text-xs text-emerald-600">已复制</span>}
+          </div>
+          <button onClick={onLeave} className="flex items-center gap-1 text-xs text-emerald-600 hover:text-emerald-800">
+            <LogOut size={14} /> 离开房间
+          </button>
+          <p className="w-full text-xs text-emerald-600">
+            你是{room.seat === Seat.First ? '先手方' : '后手方'}。把房间号发给好友，对方输入后即可加入；断线后会自动重连。
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-2">
+            <button
+              onClick={onCreate}
+              disabled={status !== 'closed'}
+              className="px-3 py-1.5 rounded-md bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 transition"
+            >
+              创建房间
+            </button>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="房间号"
+              maxLength={8}
+              className="w-24 px-2 py-1.5 rounded-md border border-emerald-200 font-mono uppercase outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <button
+              onClick={() => onJoin(code)}
+              disabled={!code.trim() || status !== 'closed'}
+              className="px-3 py-1.5 rounded-md bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 disabled:opacity-50 transition"
+            >
+              加入
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-emerald-600">
+            服务器
+            <input
+              value={relayUrl}
+              onChange={(e) => onRelayUrlChange(e.target.value)}
+              className="flex-1 px-2 py-1 rounded border border-emerald-200 font-mono outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+          <p className="text-xs text-emerald-600">
+            需要先运行 <code className="font-mono">npm run relay</code> 启动中继服务器。
+          </p>
+        </div>
+      )}
+
+      {status !== 'open' && status !== 'closed' && (
+        <div className="flex items-center gap-2 text-xs text-emerald-600 mt-2">
+          {status === 'connecting' ? '连接中...' : '连接已断开，正在重试...'}
+          {!room && <button onClick={onLeave} className="underline hover:text-emerald-800">取消</button>}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-2">{ERROR_MESSAGES[error]}</p>}
+    </div>
+  );
+};
+
+export default OnlinePanel;
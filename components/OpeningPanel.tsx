@@ -0,0 +1,84 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { OpeningPhase, OpeningRule, OpeningAction, OpeningChoice } from '../types';
+import { getOpeningLabel, MAX_FIFTH_MOVES } from '../services/opening';
+
+interface OpeningPanelProps {
+  openingRule: OpeningRule;
+  phase: OpeningPhase;
+  actorName: string;   // Who has to act, e.g. "先手方" or "AI"
+  disabled: boolean;   // True while the AI is acting
+  onAction: (action: OpeningAction) => void;
+}
+
+const CHOICE_LABELS: Record<OpeningChoice, string> = {
+  'black': '执黑',
+  'white': '执白',
+  'place-two': '再摆两子',
+};
+
+const OpeningPanel: React.FC<OpeningPanelProps> = ({ openingRule, phase, actorName, disabled, onAction }) => {
+  const step = phase.steps[0];
+
+  let instruction: string;
+  switch (step.type) {
+    case 'place':
+      instruction = `请在棋盘上摆放 ${step.count - phase.placed} 子（黑白交替）`;
+      break;
+    case 'choose':
+      instruction = '请选择执黑还是执白';
+      break;
+    case 'declare':
+      instruction = '请声明将提供几个第五手候选';
+      break;
+    case 'offer':
+      instruction = `请在棋盘上摆出第五手候选（${phase.candidates.length}/${phase.fifthCount}）`;
+      break;
+    case 'select':
+      instruction = '请点击一个候选第五手保留，其余将被移除';
+      break;
+  }
+
+  return (
+    <div className="w-full max-w-[600px] bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center gap-2 font-bold text-amber-800 mb-1">
+        <Shuffle size={16} /> 开局阶段 · {getOpeningLabel(openingRule)}
+      </div>
+      <p className="text-amber-700 text-xs mb-2">
+        <span className="font-bold">{actorName}</span>：{instruction}
+      </p>
+
+      {step.type === 'choose' && (
+        <div className="flex gap-2">
+          {step.options.map(choice => (
+            <button
+              key={choice}
+              disabled={disabled}
+              onClick={() => onAction({ type: 'choose', choice })}
+              className="flex-1 px-3 py-1.5 rounded-md bg-white border border-amber-300 text-amber-800 text-xs font-medium hover:bg-amber-100 disabled:opacity-50 transition"
+            >
+              {CHOICE_LABELS[choice]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {step.type === 'declare' && (
+        <div className="flex flex-wrap gap-1">
+          {Array.from({ length: MAX_FIFTH_MOVES }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              disabled={disabled}
+              onClick={() => onAction({ type: 'declare', count })}
+              className="w-8 h-8 rounded-md bg-white border border-amber-300 text-amber-800 text-xs font-bold hover:bg-amber-100 disabled:opacity-50 transition"
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpeningPanel;
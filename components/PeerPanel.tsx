@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Link2, Copy, LogOut, Camera, Send, Flag, Handshake, Undo2, RefreshCw } from 'lucide-react';
+import { Seat } from '../types';
+import { PeerStatus } from '../services/peerClient';
+import QRCodeView from './QRCodeView';
+import QRScanner, { canScanQR } from './QRScanner';
+
+export interface PeerChatLine {
+  mine: boolean;
+  text: string;
+}
+
+interface PeerPanelProps {
+  status: PeerStatus;
+  seat: Seat | null;              // null until hosting or joining
+  signal: string;                 // The code (or, for the host, the invitation link) to pass on
+  chat: PeerChatLine[];
+  request: 'takeback' | 'draw' | null; // Waiting for our answer
+  notice: string;
+  finished: boolean;
+  canTakeback: boolean;
+  onHost: () => void;
+  onJoin: (offer: string) => void;
+  onAnswer: (code: string) => void;
+  onLeave: () => void;
+  onChat: (text: string) => void;
+  onTakeback: () => void;
+  onDraw: () => void;
+  onResign: () => void;
+  onReply: (accepted: boolean) => void;
+  onNewGame: () => void;
+}
+
+const REQUEST_LABELS = {
+  takeback: '对手请求悔棋，是否同意？',
+  draw: '对手提议和棋，是否同意？',
+};
+
+const PeerPanel: React.FC<PeerPanelProps> = ({
+  status, seat, signal, chat, request, notice, finished, canTakeback,
+  onHost, onJoin, onAnswer, onLeave, onChat, onTakeback, onDraw, onResign, onReply, onNewGame,
+}) => {
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const copySignal = () => {
+    navigator.clipboard.writeText(signal).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const sendChat = () => {
+    if (!message.trim()) return;
+    onChat(message.trim());
+    setMessage('');
+  };
+
+  const actionButton = (label: string, icon: React.ReactNode, onClick: () => void, disabled = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="flex items-center gap-1 px-2 py-1 rounded-md bg-white border border-violet-200 text-violet-700 text-xs hover:bg-violet-100 disabled:opacity-40 transition"
+    >
+      {icon} {label}
+    </button>
+  );
+
+  // The code for the other side, as a QR code and for copying
+  const signalBox = (hint: string) => (
+    <div className="flex flex-col items-center gap-2">
+      {signal ? (
+        <>
+          <QRCodeView text={signal} />
+          <button
+            onClick={copySignal}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-violet-600 text-white hover:bg-violet-700 transition"
+          >
+            <Copy size={14} /> {copied ? '已复制' : '复制'}
+          </button>
+          <p className="text-xs text-violet-600 text-center">{hint}</p>
+        </>
+      ) : (
+        <p className="text-xs text-violet-600 animate-pulse">正在生成连接码...</p>
+      )}
+    </div>
+  );
+
+  const codeInput = (placeholder: string, submitLabel: string, onSubmit: (text: string) => void) => (
+    <div className="flex flex-col gap-2">
+      <textarea
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full px-2 py-1 rounded-md border border-violet-200 font-mono text-xs outline-none focus:ring-2 focus:ring-violet-500"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSubmit(code)}
+          disabled={!code.trim()}
+          className="px-3 py-1.5 rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50 transition"
+        >
+          {submitLabel}
+        </button>
+        {canScanQR && (
+          <button
+            onClick={() => setScanning(!scanning)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-white border border-violet-200 text-violet-700 hover:bg-violet-100 transition"
+          >
+            <Camera size={14} /> {scanning ? '停止扫描' : '扫码'}
+          </button>
+        )}
+      </div>
+      {scanning && (
+        <QRScanner
+          onScan={(text) => { setScanning(false); onSubmit(text); }}
+          onError={() => setScanning(false)}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-[600px] bg-violet-50 border border-violet-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 font-bold text-violet-800">
+          <Link2 size={16} /> 点对点对战
+          {seat && <span className="font-normal text-xs text-violet-500">（你是{seat === Seat.First ? '先手方' : '后手方'}）</span>}
+        </div>
+        {seat && (
+          <button onClick={onLeave} className="flex items-center gap-1 text-xs text-violet-500 hover:text-violet-700">
+            <LogOut size={14} /> 断开
+          </button>
+        )}
+      </div>
+
+      {/* Not started: host, or join with the host's code */}
+      {!seat && (
+        <div className="flex flex-col gap-3">
+          <p className="text-xs text-violet-600">
+            无需服务器：一方生成邀请码，另一方用它生成回应码并发回，双方即可直接连接。邀请码和回应码可以复制粘贴，也可以扫码。
+          </p>
+          <button
+            onClick={onHost}
+            className="self-start px-3 py-1.5 rounded-md bg-violet-600 text-white hover:bg-violet-700 transition"
+          >
+            发起对局
+          </button>
+          {codeInput('或粘贴对方的邀请码 / 邀请链接', '加入', onJoin)}
+        </div>
+      )}
+
+      {/* Host: show the invitation, then take the guest's answer */}
+      {seat === Seat.First && (status === 'preparing' || status === 'waiting') && (
+        <div className="flex flex-col gap-3">
+          {signalBox('第一步：把邀请链接发给对方，或让对方用手机扫码打开。')}
+          {status === 'waiting' && codeInput('第二步：粘贴对方发回的回应码', '连接', onAnswer)}
+        </div>
+      )}
+
+      {/* Guest: show the answer for the host */}
+      {seat === Seat.Second && (status === 'preparing' || status === 'connecting') && (
+        signalBox('把回应码发回给对方（或让对方扫码），对方确认后即可开始。')
+      )}
+
+      {seat === Seat.First && status === 'connecting' && (
+        <p className="text-xs text-violet-600 animate-pulse">正在连接...</p>
+      )}
+
+      {seat && status === 'closed' && (
+        <p className="text-xs text-red-600">连接已断开或无法建立。请断开后重新发起。</p>
+      )}
+
+      {/* Connected: requests, offers and chat */}
+      {status === 'open' && (
+        <div className="flex flex-col gap-2">
+          {request && (
+            <div className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-md p-2 text-amber-800">
+              <span>{REQUEST_LABELS[request]}</span>
+              <div className="flex gap-2">
+                <button onClick={() => onReply(true)} className="px-2 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700">同意</button>
+                <button onClick={() => onReply(false)} className="px-2 py-1 rounded-md bg-white border border-amber-200 hover:bg-amber-100">拒绝</button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {actionButton('请求悔棋', <Undo2 size={12} />, onTakeback, !canTakeback)}
+            {actionButton('提议和棋', <Handshake size={12} />, onDraw, finished)}
+            {actionButton('认输', <Flag size={12} />, onResign, finished)}
+            {seat === Seat.First && actionButton('再来一局', <RefreshCw size={12} />, onNewGame)}
+          </div>
+          {notice && <p className="text-xs text-violet-600">{notice}</p>}
+
+          <div className="max-h-32 overflow-y-auto flex flex-col gap-1 text-xs">
+            {chat.map((line, i) => (
+              <div key={i} className={line.mine ? 'self-end text-right' : 'self-start'}>
+                <span className={`inline-block px-2 py-1 rounded-lg ${line.mine ? 'bg-violet-600 text-white' : 'bg-white border border-violet-100 text-stone-700'}`}>
+                  {line.text}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && sendChat()}
+              placeholder="发送消息"
+              maxLength={200}
+              className="flex-1 px-2 py-1 rounded-md border border-violet-200 outline-none focus:ring-2 focus:ring-violet-500"
+            />
+            <button onClick={sendChat} className="p-2 rounded-md bg-violet-600 text-white hover:bg-violet-700">
+              <Send size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeerPanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { PencilRuler, Eraser, Trash2, ClipboardCopy, Users, Smartphone, Globe, X } from 'lucide-react';
+import { Player } from '../types';
+import { HANDICAP_OPTIONS } from '../constants';
+import { PositionProblem, POSITION_PROBLEM_MESSAGES } from '../services/position';
+
+export type EditorStart = 'local' | 'ai' | 'remote';
+
+interface PositionEditorProps {
+  brush: Player;             // Stone placed by a click; None erases
+  toMove: Player;
+  handicap: number | null;   // Handicap stones, if this is a handicap game
+  problems: PositionProblem[];
+  onBrush: (brush: Player) => void;
+  onToMove: (player: Player) => void;
+  onHandicap: (stones: number | null) => void;
+  onClear: () => void;
+  onCopyCurrent: () => void;
+  onStart: (start: EditorStart) => void;
+  onCancel: () => void;
+}
+
+const PositionEditor: React.FC<PositionEditorProps> = ({ brush, toMove, handicap, problems, onBrush, onToMove, onHandicap, onClear, onCopyCurrent, onStart, onCancel }) => {
+  const option = (active: boolean, label: React.ReactNode, onClick: () => void, disabled: boolean = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`flex items-center gap-1 px-3 py-1 rounded-md border text-sm transition disabled:opacity-40 ${
+        active ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-sky-700 border-sky-200 hover:bg-sky-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-full max-w-[600px] bg-sky-50 border border-sky-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 font-bold text-sky-800">
+          <PencilRuler size={16} /> 摆棋
+        </div>
+        <button onClick={onCancel} className="flex items-center gap-1 text-xs text-sky-500 hover:text-sky-700">
+          <X size={14} /> 退出摆棋
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12 text-xs text-sky-800">落子</span>
+          {option(brush === Player.Black, <><span className="w-3 h-3 rounded-full bg-black" /> 黑子</>, () => onBrush(Player.Black))}
+          {option(brush === Player.White, <><span className="w-3 h-3 rounded-full bg-white border border-gray-400" /> 白子</>, () => onBrush(Player.White))}
+          {option(brush === Player.None, <><Eraser size={14} /> 擦除</>, () => onBrush(Player.None))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12 text-xs text-sky-800">先走</span>
+          {option(toMove === Player.Black, '黑先', () => onToMove(Player.Black), handicap !== null)}
+          {option(toMove === Player.White, '白先', () => onToMove(Player.White))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12 text-xs text-sky-800">让子</span>
+          {option(handicap === null, '不让子', () => onHandicap(null))}
+          {HANDICAP_OPTIONS.map(stones => option(handicap === stones, `${stones} 子`, () => onHandicap(stones)))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12 text-xs text-sky-800">棋盘</span>
+          {option(false, <><Trash2 size={14} /> 清空</>, onClear)}
+          {option(false, <><ClipboardCopy size={14} /> 用当前局面</>, onCopyCurrent)}
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+          {problems.map(problem => <li key={problem}>{POSITION_PROBLEM_MESSAGES[problem]}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {option(false, <><Users size={14} /> 本地对弈</>, () => onStart('local'), problems.length > 0)}
+        {option(false, <><Smartphone size={14} /> 对战 AI</>, () => onStart('ai'), problems.length > 0)}
+        {option(false, <><Globe size={14} /> 发给好友</>, () => onStart('remote'), problems.length > 0)}
+      </div>
+
+      <p className="text-sky-500 text-xs mt-2">
+        点击棋盘放子，点在同色棋子上将其移除。让子局中黑方（较弱的一方）先摆好让子，由白方先走；对战 AI 时你执黑。
+      </p>
+    </div>
+  );
+};
+
+export default PositionEditor;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Puzzle as PuzzleIcon, CalendarDays, RotateCcw, SkipForward, Eye, EyeOff, Copy } from 'lucide-react';
+import { Player } from '../types';
+import { getRules } from '../services/rules';
+import { ThreatKind } from '../services/threatSolver';
+import { Puzzle, PuzzleProgress, PuzzleTier, PUZZLES, PUZZLE_TIERS, puzzleAttacker, dailyPuzzle } from '../services/puzzles';
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+interface PuzzlePanelProps {
+  puzzle: Puzzle | null;     // null until one is picked
+  status: PuzzleStatus;
+  movesUsed: number;         // Attacking moves played so far
+  thinking: boolean;         // The defence is being worked out
+  solutionShown: boolean;
+  progress: Record<string, PuzzleProgress>;
+  notice: string;
+  onSelect: (puzzle: Puzzle) => void;
+  onRetry: () => void;
+  onToggleSolution: () => void;
+  onCopyLink: () => void;
+}
+
+const TIER_LABELS: Record<PuzzleTier, string> = {
+  beginner: '入门',
+  intermediate: '进阶',
+  advanced: '高级',
+};
+
+const KIND_LABELS: Record<ThreatKind, string> = {
+  VCF: '连续冲四',
+  VCT: '冲四或活三',
+};
+
+const PuzzlePanel: React.FC<PuzzlePanelProps> = ({ puzzle, status, movesUsed, thinking, solutionShown, progress, notice, onSelect, onRetry, onToggleSolution, onCopyLink }) => {
+  const daily = dailyPuzzle();
+  const index = puzzle ? PUZZLES.indexOf(puzzle) : -1;
+  // The next puzzle not solved yet, going round from this one
+  const next = PUZZLES.map((_, i) => PUZZLES[(index + 1 + i) % PUZZLES.length])
+    .find(candidate => candidate !== puzzle && !progress[candidate.id]?.solvedAt) ?? null;
+
+  let message: string;
+  if (!puzzle) message = '选择一道题目开始。';
+  else if (status === 'solved') message = '正解！干净利落的必胜。';
+  else if (status === 'failed') message = `这步之后已无法在 ${puzzle.maxMoves} 手内取胜，再试一次吧。`;
+  else if (thinking) message = '对手正在寻找最顽强的防守...';
+  else message = `轮到你落子（已用 ${movesUsed} / ${puzzle.maxMoves} 手）。`;
+
+  const chipClass = (candidate: Puzzle) => {
+    const record = progress[candidate.id];
+    const state = record?.solvedAt ? 'bg-emerald-500 text-white border-emerald-500'
+      : record ? 'bg-amber-100 text-amber-800 border-amber-200'
+      : 'bg-white text-stone-600 border-emerald-200';
+    return `w-8 h-7 rounded border text-xs font-mono transition hover:scale-105 ${state} ${candidate === puzzle ? 'ring-2 ring-emerald-600' : ''}`;
+  };
+
+  return (
+    <div className="w-full max-w-[600px] bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 font-bold text-emerald-800">
+          <PuzzleIcon size={16} />
+          {puzzle ? `${TIER_LABELS[puzzle.tier]} · 第 ${puzzle.id.toUpperCase()} 题 · ${getRules(puzzle.rule).label}` : '解题'}
+          {puzzle === daily && <span className="px-2 py-0.5 rounded-full bg-emerald-200 text-emerald-800 text-xs font-medium">每日一题</span>}
+        </div>
+        <button
+          onClick={() => onSelect(daily)}
+          className="flex items-center gap-1 text-xs text-emerald-600 hover:text-emerald-800"
+        >
+          <CalendarDays size={14} /> 每日一题{progress[daily.id]?.solvedAt ? ' ✓' : ''}
+        </button>
+      </div>
+
+      {puzzle && (
+        <p className="text-emerald-900 font-medium">
+          {puzzleAttacker(puzzle) === Player.Black ? '黑' : '白'}先，{puzzle.maxMoves} 手内取胜（{KIND_LABELS[puzzle.kind]}）
+        </p>
+      )}
+      <p className={`text-xs mt-1 ${status === 'solved' ? 'text-emerald-700 font-bold' : status === 'failed' ? 'text-red-600' : 'text-emerald-700'}`}>
+        {message}
+      </p>
+
+      {puzzle && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button onClick={onRetry} className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 transition">
+            <RotateCcw size={14} /> 重试
+          </button>
+          <button onClick={onToggleSolution} className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 transition">
+            {solutionShown ? <EyeOff size={14} /> : <Eye size={14} />} {solutionShown ? '隐藏答案' : '看答案'}
+          </button>
+          <button
+            onClick={() => next && onSelect(next)}
+            disabled={!next}
+            className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 disabled:opacity-40 transition"
+          >
+            <SkipForward size={14} /> 下一题
+          </button>
+          <button onClick={onCopyLink} className="flex items-center gap-1 px-3 py-1 rounded-md bg-white border border-emerald-200 text-emerald-700 hover:bg-emerald-100 transition">
+            <Copy size={14} /> 复制题目链接
+          </button>
+          {notice && <span className="self-center text-xs text-emerald-600">{notice}</span>}
+        </div>
+      )}
+
+      {/* Every puzzle by tier: solved ones filled, tried ones tinted */}
+      <div className="mt-3 space-y-1.5">
+        {PUZZLE_TIERS.map(tier => {
+          const puzzles = PUZZLES.filter(candidate => candidate.tier === tier);
+          const solved = puzzles.filter(candidate => progress[candidate.id]?.solvedAt).length;
+          return (
+            <div key={tier} className="flex items-center gap-2">
+              <span className="w-20 flex-shrink-0 text-xs text-emerald-800">{TIER_LABELS[tier]} {solved}/{puzzles.length}</span>
+              <div className="flex flex-wrap gap-1">
+                {puzzles.map(candidate => (
+                  <button key={candidate.id} title={`${KIND_LABELS[candidate.kind]} · ${candidate.maxMoves} 手`} onClick={() => onSelect(candidate)} className={chipClass(candidate)}>
+                    {candidate.id.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PuzzlePanel;
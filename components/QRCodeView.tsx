@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import { encodeQR } from '../services/qrCode';
+
+interface QRCodeViewProps {
+  text: string;
+  size?: number; // Rendered width in pixels
+}
+
+const QUIET_ZONE = 4; // Light border, in modules, that scanners need around the code
+
+const QRCodeView: React.FC<QRCodeViewProps> = ({ text, size = 220 }) => {
+  const modules = useMemo(() => encodeQR(text), [text]);
+  const extent = modules.length + QUIET_ZONE * 2;
+
+  // One path with a unit square per dark module
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} shapeRendering="crispEdges" className="bg-white rounded">
+      <path d={path} fill="black" />
+    </svg>
+  );
+};
+
+export default QRCodeView;
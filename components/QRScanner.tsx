@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+
+// Reads a QR code from the camera with the browser's barcode detector, where
+// there is one (check with `canScanQR` first).
+
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const canScanQR = Detector !== undefined && !!navigator.mediaDevices?.getUserMedia;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface QRScannerProps {
+  onScan: (text: string) => void;
+  onError: (error: Error) => void;
+}
+
+const QRScanner: React.FC<QRScannerProps> = ({ onScan, onError }) => {
+  const video = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!Detector) return;
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        stream = media;
+        if (stopped || !video.current) return;
+        video.current.srcObject = media;
+        video.current.play();
+        timer = setInterval(async () => {
+          if (!video.current || video.current.readyState < 2) return;
+          const [code] = await detector.detect(video.current);
+          if (code && !stopped) onScan(code.rawValue);
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(onError);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return <video ref={video} muted playsInline className="w-56 h-56 object-cover rounded bg-black" />;
+};
+
+export default QRScanner;
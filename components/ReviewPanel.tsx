@@ -0,0 +1,175 @@
+import React from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, History, X } from 'lucide-react';
+import { Move, Player } from '../types';
+import { MoveTree, ROOT, lineThrough, pathTo } from '../services/moveTree';
+import { formatCoordinates } from '../services/gameLogic';
+import { MoveQuality, MoveReview } from '../services/coach';
+import EvaluationGraph from './EvaluationGraph';
+
+// The result of the post-game analysis, with the tree node of every move it
+// covers (not the set-up or opening stones the game started from)
+export interface ReviewAnnotations {
+  nodes: number[];
+  reviews: MoveReview[];
+}
+
+interface ReviewPanelProps {
+  tree: MoveTree;
+  node: number;          // The position being shown
+  boardSize: number;
+  onSelect: (node: number) => void;
+  onExit: () => void;
+  spectator?: boolean;   // Watching a shared game: no variations, exit leaves the game
+  annotations?: ReviewAnnotations | null;
+  sourceOf?: (number: number, move: Move) => string | null; // What played an AI move, by move number
+}
+
+const QUALITY_LABELS: Record<MoveQuality, string> = {
+  good: '好棋',
+  inaccuracy: '欠佳',
+  mistake: '失误',
+  blunder: '恶手',
+};
+
+// The usual annotation symbols, shown after the move
+const QUALITY_MARKS: Record<MoveQuality, string> = {
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
+const QUALITY_COLORS: Record<MoveQuality, string> = {
+  good: '',
+  inaccuracy: 'text-amber-600',
+  mistake: 'text-orange-600',
+  blunder: 'text-red-600',
+};
+
+const FLAWS: MoveQuality[] = ['inaccuracy', 'mistake', 'blunder'];
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ tree, node, boardSize, onSelect, onExit, spectator = false, annotations = null, sourceOf }) => {
+  const line = lineThrough(tree, node);
+  const current = line.indexOf(node) + 1; // Moves played to reach this position
+  const { parent, children } = tree.nodes[node];
+  const reviewOf = (id: number): MoveReview | null => {
+    const index = annotations ? annotations.nodes.indexOf(id) : -1;
+    return index >= 0 ? annotations!.reviews[index] : null;
+  };
+  const currentReview = reviewOf(node);
+  // The position the analysis starts from, and the moves that led to it
+  const start = annotations && annotations.nodes.length > 0 ? tree.nodes[annotations.nodes[0]].parent! : ROOT;
+  const skipped = pathTo(tree, start).length;
+  const currentSource = current > 0 ? sourceOf?.(current, tree.nodes[node].move!) ?? null : null;
+  const flawCounts = (player: Player) => FLAWS.map(quality =>
+    annotations!.reviews.filter((review, i) => review.quality === quality && tree.nodes[annotations!.nodes[i]].move!.player === player).length);
+
+  const navButton = (label: string, icon: React.ReactNode, target: number | null) => (
+    <button
+      title={label}
+      disabled={target === null || target === node}
+      onClick={() => target !== null && onSelect(target)}
+      className="p-2 rounded-md bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-100 disabled:opacity-40 transition"
+    >
+      {icon}
+    </button>
+  );
+
+  const moveChip = (id: number, number: number, variation: boolean) => {
+    const move = tree.nodes[id].move!;
+    const quality = reviewOf(id)?.quality;
+    return (
+      <button
+        key={id}
+        onClick={() => onSelect(id)}
+        title={sourceOf?.(number, move) ?? undefined}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono transition ${
+          id === node
+            ? 'bg-indigo-600 text-white'
+            : variation
+              ? 'text-indigo-500 hover:bg-indigo-100 italic'
+              : `${(quality && QUALITY_COLORS[quality]) || 'text-stone-700'} hover:bg-indigo-100`
+        }`}
+      >
+        <span className={`w-2 h-2 rounded-full ${move.player === Player.Black ? 'bg-black' : 'bg-white border border-gray-400'}`} />
+        {number}.{formatCoordinates(move, boardSize)}{quality && QUALITY_MARKS[quality]}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-[600px] bg-indigo-50 border border-indigo-200 rounded-lg p-3 text-sm animate-in fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 font-bold text-indigo-800">
+          <History size={16} /> {spectator ? '观战' : '复盘'} · 第 {current} / {line.length} 手
+        </div>
+        <button onClick={onExit} className="flex items-center gap-1 text-xs text-indigo-500 hover:text-indigo-700">
+          <X size={14} /> {spectator ? '退出观战' : '返回对局'}
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        {navButton('第一手', <ChevronsLeft size={16} />, ROOT)}
+        {navButton('上一手', <ChevronLeft size={16} />, parent)}
+        {navButton('下一手', <ChevronRight size={16} />, children[0] ?? null)}
+        {navButton('最后一手', <ChevronsRight size={16} />, line[line.length - 1] ?? null)}
+      </div>
+
+      {/* The current line; other moves tried at the same point follow in brackets */}
+      <div className="flex flex-wrap items-center gap-x-1 gap-y-0.5 max-h-32 overflow-y-auto">
+        {line.map((id, i) => {
+          const siblings = tree.nodes[tree.nodes[id].parent!].children.filter(s => s !== id);
+          return (
+            <React.Fragment key={id}>
+              {moveChip(id, i + 1, false)}
+              {siblings.length > 0 && (
+                <span className="flex items-center text-indigo-300 text-xs">
+                  (
+                  {siblings.map(s => moveChip(s, i + 1, true))}
+                  )
+                </span>
+              )}
+            </React.Fragment>
+          );
+        })}
+        {line.length === 0 && <span className="text-xs text-indigo-400">还没有着法</span>}
+      </div>
+
+      {currentSource && <p className="mt-1 text-xs text-indigo-500">第 {current} 手由 {currentSource} 走出</p>}
+
+      {annotations && (
+        <div className="mt-2 space-y-1">
+          <EvaluationGraph
+            evaluations={annotations.reviews.map(review => review.evaluation)}
+            current={Math.max(0, current - skipped)}
+            onSelect={moves => onSelect(moves === 0 ? start : annotations.nodes[moves - 1])}
+          />
+          <div className="flex justify-between text-xs text-indigo-700">
+            {[Player.Black, Player.White].map(player => (
+              <span key={player}>
+                {player === Player.Black ? '黑' : '白'}：
+                {FLAWS.map((quality, i) => `${QUALITY_LABELS[quality]} ${flawCounts(player)[i]}`).join(' · ')}
+              </span>
+            ))}
+          </div>
+          {currentReview && (
+            <p className={`text-xs font-medium ${QUALITY_COLORS[currentReview.quality] || 'text-green-700'}`}>
+              第 {current} 手：{QUALITY_LABELS[currentReview.quality]}
+              {currentReview.missedWin && ' · 漏胜'}
+              {currentReview.missedBlock && ' · 漏防'}
+              {currentReview.quality !== 'good' && `，较好的是 ${formatCoordinates(currentReview.best, boardSize)}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="text-indigo-500 text-xs mt-2">
+        {spectator
+          ? '只读观战：键盘 ←/→ 逐手，↑/↓ 跳到开始/结尾。在本页打开同一局的新观战链接会自动补上新的着法。'
+          : '点击棋盘可从当前局面尝试变化，主线不会丢失。键盘 ←/→ 逐手，↑/↓ 跳到开始/结尾。'}
+      </p>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, X, UserPlus, Pencil, Trash2 } from 'lucide-react';
+import { Difficulty, GameMode } from '../types';
+import { Profile, OutcomeCounts, AI_RATINGS, computeStats } from '../services/profiles';
+import { MODE_LABELS } from './LibraryPanel';
+
+interface StatsPanelProps {
+  profile: Profile;
+  profiles: Profile[];
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  [Difficulty.Easy]: 'Easy',
+  [Difficulty.Medium]: 'Medium',
+  [Difficulty.Hard]: 'Hard',
+  [Difficulty.Master]: 'Master',
+  [Difficulty.Engine]: 'Engine',
+};
+
+const STREAK_LABELS = { win: '连胜', loss: '连败', draw: '连续和棋' };
+
+const winRate = (counts: OutcomeCounts): string => {
+  const played = counts.win + counts.loss + counts.draw;
+  return played ? `${Math.round(((counts.win + counts.draw / 2) / played) * 100)}%` : '-';
+};
+
+const RecordRow: React.FC<{ label: string; counts: OutcomeCounts; note?: string }> = ({ label, counts, note }) => (
+  <tr className="border-t border-gray-100">
+    <td className="py-1 pr-2 text-gray-700">
+      {label} {note && <span className="text-xs text-gray-400">{note}</span>}
+    </td>
+    <td className="py-1 text-center text-green-700">{counts.win}</td>
+    <td className="py-1 text-center text-red-600">{counts.loss}</td>
+    <td className="py-1 text-center text-gray-500">{counts.draw}</td>
+    <td className="py-1 text-right text-gray-700">{winRate(counts)}</td>
+  </tr>
+);
+
+// The rating after each game against the AI
+const RatingChart: React.FC<{ ratings: number[] }> = ({ ratings }) => {
+  if (ratings.length < 2) return null;
+  const width = 300;
+  const height = 60;
+  const min = Math.min(...ratings) - 10;
+  const max = Math.max(...ratings) + 10;
+  const points = ratings
+    .map((rating, i) => `${(i / (ratings.length - 1)) * width},${height - ((rating - min) / (max - min)) * height}`)
+    .join(' ');
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-16" preserveAspectRatio="none">
+      <polyline points={points} fill="none" stroke="#d97706" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ profile, profiles, onSwitch, onCreate, onRename, onDelete, onClose }) => {
+  const stats = useMemo(() => computeStats(profile), [profile]);
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const ratings = profile.games.filter(game => game.mode === GameMode.AI).map(game => game.rating);
+  const played = stats.total.win + stats.total.loss + stats.total.draw;
+
+  const submitName = () => {
+    if (editing === 'new') onCreate(name);
+    else if (editing === 'rename') onRename(name);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <BarChart3 size={20} /> 战绩
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-stone-100 text-stone-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Profile picker */}
+        <div className="flex items-center gap-2 text-sm mb-4">
+          {editing ? (
+            <>
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submitName()}
+                maxLength={20}
+                placeholder="名字"
+                className="flex-1 px-2 py-1 rounded-md border border-gray-300 outline-none focus:ring-2 focus:ring-amber-500"
+              />
+              <button onClick={submitName} className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700">确定</button>
+              <button onClick={() => setEditing(null)} className="px-3 py-1 rounded-md text-gray-600 hover:bg-gray-100">取消</button>
+            </>
+          ) : (
+            <>
+              <select
+                value={profile.id}
+                onChange={(e) => onSwitch(e.target.value)}
+                className="flex-1 px-2 py-1 rounded-md border border-gray-200 bg-white font-medium outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button onClick={() => { setName(profile.name); setEditing('rename'); }} title="改名" className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => { setName(''); setEditing('new'); }} title="新建玩家" className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100">
+                <UserPlus size={14} />
+              </button>
+              {profiles.length > 1 && (
+                <button
+                  onClick={() => window.confirm(`删除玩家「${profile.name}」和全部战绩？`) && onDelete(profile.id)}
+                  title="删除玩家"
+                  className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Rating and summary */}
+        <div className="grid grid-cols-3 gap-2 text-center mb-4">
+          <div className="bg-amber-50 rounded-lg p-2">
+            <div className="text-2xl font-bold text-amber-800">{profile.rating}</div>
+            <div className="text-xs text-amber-700">等级分（最高 {stats.peakRating}）</div>
+          </div>
+          <div className="bg-stone-50 rounded-lg p-2">
+            <div className="text-2xl font-bold text-stone-800">
+              {stats.streak ? stats.streak.length : 0}
+            </div>
+            <div className="text-xs text-stone-600">
+              {stats.streak ? STREAK_LABELS[stats.streak.outcome] : '连胜'}（最多连胜 {stats.bestWinStreak}）
+            </div>
+          </div>
+          <div className="bg-stone-50 rounded-lg p-2">
+            <div className="text-2xl font-bold text-stone-800">{played ? Math.round(stats.averageMoves) : '-'}</div>
+            <div className="text-xs text-stone-600">平均手数（共 {played} 局）</div>
+          </div>
+        </div>
+
+        <RatingChart ratings={ratings} />
+
+        {played === 0 ? (
+          <p className="text-sm text-gray-500 mt-2">
+            还没有战绩。人机对战、远程和在线对局结束后会自动记入当前玩家。
+          </p>
+        ) : (
+          <table className="w-full text-sm mt-2">
+            <thead>
+              <tr className="text-xs text-gray-500">
+                <th className="text-left font-normal"></th>
+                <th className="font-normal">胜</th>
+                <th className="font-normal">负</th>
+                <th className="font-normal">和</th>
+                <th className="text-right font-normal">胜率</th>
+              </tr>
+            </thead>
+            <tbody>
+              <RecordRow label="全部" counts={stats.total} />
+              {Object.values(GameMode).map(mode => stats.byMode[mode] && (
+                <RecordRow key={mode} label={MODE_LABELS[mode]} counts={stats.byMode[mode]!} />
+              ))}
+              {Object.values(Difficulty).map(difficulty => stats.byDifficulty[difficulty] && (
+                <RecordRow
+                  key={difficulty}
+                  label={`AI ${DIFFICULTY_LABELS[difficulty]}`}
+                  note={AI_RATINGS[difficulty] ? `(${AI_RATINGS[difficulty]})` : undefined}
+                  counts={stats.byDifficulty[difficulty]!}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
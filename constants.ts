@@ -1,6 +1,23 @@
+// Defaults for a new game; both can be changed per game
 export const BOARD_SIZE = 15;
 export const WIN_COUNT = 5;
 
+// Choices offered in the board settings
+export const BOARD_SIZE_OPTIONS = [3, 5, 7, 9, 11, 13, 15, 17, 19, 20]; // 20 for Piskvork games
+export const WIN_COUNT_OPTIONS = [3, 4, 5, 6];
+
+// Choices offered for the clocks
+export const CLOCK_MINUTE_OPTIONS = [1, 3, 5, 10, 15, 20, 30, 60];
+export const CLOCK_INCREMENT_OPTIONS = [2, 3, 5, 10, 15, 30];    // Seconds
+export const CLOCK_PERIOD_OPTIONS = [1, 3, 5];
+export const CLOCK_PERIOD_SECONDS_OPTIONS = [10, 20, 30, 60];
+
+// AI matches: pause before each move, in milliseconds
+export const AI_MATCH_DELAY_OPTIONS = [0, 300, 1000, 2000];
+
+// Extra Black stones the weaker player can start with
+export const HANDICAP_OPTIONS = [1, 2, 3, 4, 5];
+
 // Visual constants
 export const CELL_SIZE_DESKTOP = 40;
 export const CELL_SIZE_MOBILE = '6.5vw'; // Responsive sizing
@@ -0,0 +1,72 @@
+// Bridge between the app and a Gomocup engine on this computer. Run with
+// `npm run engine-bridge -- <engine> [args...]`; the port can be changed with
+// the PORT environment variable, the interface with HOST. Only pages from
+// ORIGINS (comma separated; the dev server and the published app by default)
+// may connect.
+//
+// Every WebSocket connection starts its own engine process. Each message from
+// the app is one protocol line for the engine (see services/gomocupProtocol.ts)
+// and each line the engine prints goes back as one message. Closing the
+// connection ends the engine.
+
+import { spawn } from 'child_process';
+import { IncomingMessage } from 'http';
+import { createInterface } from 'readline';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8788;
+// Only this computer by default: whoever connects gets to run the engine
+const HOST = process.env.HOST || '127.0.0.1';
+// Any web page can open a socket to 127.0.0.1, so only the app's own pages may
+const ORIGINS = (process.env.ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000,https://gfzq9cmy5d-web.github.io')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+// Time an engine gets to exit after END before it is killed
+const EXIT_GRACE_MS = 1000;
+
+const [engine, ...engineArgs] = process.argv.slice(2);
+if (!engine) {
+  console.error('Usage: npm run engine-bridge -- <engine executable> [args...]');
+  process.exit(1);
+}
+
+const server = new WebSocketServer({ port: PORT, host: HOST });
+
+server.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+  // Browsers always send an Origin; scripts on this computer need none
+  const { origin } = request.headers;
+  if (origin && !ORIGINS.includes(origin)) {
+    console.warn(`Refused a connection from ${origin}; add it to ORIGINS to allow it`);
+    socket.close(1008, 'Origin not allowed');
+    return;
+  }
+
+  const child = spawn(engine, engineArgs, { stdio: ['pipe', 'pipe', 'inherit'] });
+
+  const send = (line: string) => {
+    if (socket.readyState === socket.OPEN) socket.send(line);
+  };
+
+  // Engines built for Windows end their lines with \r\n
+  createInterface({ input: child.stdout }).on('line', line => send(line.trim()));
+  // Writing to an engine that has just exited is not worth crashing over
+  child.stdin.on('error', () => {});
+  child.on('error', (error) => {
+    send(`ERROR cannot start engine: ${error.message}`);
+    socket.close();
+  });
+  child.on('exit', () => socket.close());
+
+  socket.on('message', (data: RawData) => {
+    if (child.stdin.writable) child.stdin.write(`${String(data).trim()}\n`);
+  });
+
+  socket.on('close', () => {
+    if (child.exitCode !== null) return;
+    if (child.stdin.writable) child.stdin.write('END\n');
+    setTimeout(() => child.kill(), EXIT_GRACE_MS).unref();
+  });
+});
+
+console.log(`Engine bridge for ${engine} listening on ws://${HOST}:${PORT}`);
@@ -0,0 +1,130 @@
+// The app's own AI as a Gomocup engine, so it can play in Piskvork and other
+// Gomocup-style managers. Build with `npm run build:engine` and point the
+// manager at `node dist/engine/gomocupEngine.js`. It plays like Master, with
+// the manager's time limits in place of the settings in the app.
+
+import { createInterface } from 'readline';
+import { Difficulty, Player, RuleVariant } from '../types';
+import { WIN_COUNT } from '../constants';
+import { createEmptyGrid } from '../services/gameLogic';
+import { getBestMove } from '../services/geminiService';
+import { DEFAULT_LLM_SETTINGS } from '../services/llmProvider';
+import { DEFAULT_ENGINE_OPTIONS } from '../services/searchEngine';
+import { formatPoint, parsePoint, parseBoardLine, ruleFromCode } from '../services/gomocupProtocol';
+
+const ABOUT = 'name="Zen Gomoku", version="1.0"';
+const MIN_SIZE = 5;
+const MAX_SIZE = 26;
+// Think for a share of the match time left, and stop short of the limit: the
+// forced-win check and the reply itself come on top of the search
+const MOVES_TO_PLAN = 20;
+const SAFETY_MS = 500;
+const MIN_THINK_MS = 50;
+
+let grid: Player[][] | null = null;
+let rule = RuleVariant.Freestyle;
+let timeoutTurn = 5000;
+let timeLeft = Infinity;
+// BOARD lines while a position is being sent, until DONE
+let boardLines: string[] | null = null;
+
+const reply = (line: string) => {
+  process.stdout.write(`${line}\n`);
+};
+
+// Black moves first, so the colour to move follows from the stone count
+const colorToMove = (cells: Player[][]): Player =>
+  cells.flat().filter(cell => cell !== Player.None).length % 2 === 0 ? Player.Black : Player.White;
+
+const thinkingTime = (): number =>
+  Math.max(MIN_THINK_MS, Math.min(timeoutTurn || MIN_THINK_MS, timeLeft / MOVES_TO_PLAN) - SAFETY_MS);
+
+const play = async (cells: Player[][]) => {
+  const player = colorToMove(cells);
+  const move = await getBestMove(DEFAULT_LLM_SETTINGS, cells, player, Difficulty.Master, rule, WIN_COUNT, {
+    ...DEFAULT_ENGINE_OPTIONS,
+    timeLimitMs: thinkingTime(),
+  });
+  cells[move.row][move.col] = player;
+  reply(formatPoint(move));
+};
+
+const onBoard = (point: { row: number; col: number } | null, cells: Player[][]): point is { row: number; col: number } =>
+  !!point && point.row < cells.length && point.col < cells.length;
+
+const handle = async (line: string) => {
+  if (boardLines) {
+    if (line.toUpperCase() !== 'DONE') {
+      boardLines.push(line);
+      return;
+    }
+    const cells = createEmptyGrid(grid!.length);
+    const stones = boardLines.map(parseBoardLine).filter(stone => stone !== null);
+    boardLines = null;
+    // The engine is to move, which tells the colours apart
+    const own = stones.length % 2 === 0 ? Player.Black : Player.White;
+    for (const { point, own: mine } of stones) {
+      if (!onBoard(point, cells)) return reply('ERROR stone outside the board');
+      cells[point.row][point.col] = mine ? own : own === Player.Black ? Player.White : Player.Black;
+    }
+    grid = cells;
+    return play(grid);
+  }
+
+  const [command, ...rest] = line.split(/\s+/);
+  const argument = rest.join(' ');
+  switch (command.toUpperCase()) {
+    case 'START': {
+      const size = Number(argument);
+      if (!(size >= MIN_SIZE && size <= MAX_SIZE)) return reply(`ERROR unsupported size ${argument}`);
+      grid = createEmptyGrid(size);
+      return reply('OK');
+    }
+    case 'RESTART':
+      if (!grid) return reply('ERROR no game started');
+      grid = createEmptyGrid(grid.length);
+      return reply('OK');
+    case 'INFO': {
+      const [key, value] = rest;
+      if (key === 'timeout_turn') timeoutTurn = Number(value);
+      else if (key === 'time_left') timeLeft = Number(value);
+      else if (key === 'rule') rule = ruleFromCode(Number(value));
+      return;
+    }
+    case 'BEGIN':
+      if (!grid) return reply('ERROR no game started');
+      return play(grid);
+    case 'TURN': {
+      const point = parsePoint(argument);
+      if (!grid || !onBoard(point, grid)) return reply('ERROR invalid move');
+      grid[point.row][point.col] = colorToMove(grid);
+      return play(grid);
+    }
+    case 'BOARD':
+      if (!grid) return reply('ERROR no game started');
+      boardLines = [];
+      return;
+    case 'TAKEBACK': {
+      const point = parsePoint(argument);
+      if (!grid || !onBoard(point, grid)) return reply('ERROR invalid move');
+      grid[point.row][point.col] = Player.None;
+      return reply('OK');
+    }
+    case 'ABOUT':
+      return reply(ABOUT);
+    case 'END':
+      process.exit(0);
+    case '':
+      return;
+    default:
+      return reply(`UNKNOWN ${command}`);
+  }
+};
+
+// Commands are handled one at a time, in order, even while a search is running
+let queue = Promise.resolve();
+createInterface({ input: process.stdin }).on('line', (line) => {
+  queue = queue
+    .then(() => handle(line.trim()))
+    .catch(error => reply(`ERROR ${error instanceof Error ? error.message : String(error)}`));
+});
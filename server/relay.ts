@@ -0,0 +1,190 @@
+// Relay server for live online games. Run with `npm run relay`; the port can
+// be changed with the PORT environment variable.
+//
+// Speaks the protocol in services/onlineProtocol.ts. A room holds the game
+// settings, the action log and the client id sitting in each seat. The relay
+// orders actions (an action must be played on the latest log) and passes
+// them on. It also replays the log, like the clients do, so that each seat
+// can only act for itself (move on its own turn, resign its own game) and
+// only legal actions are passed on.
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { GameSettings, Seat } from '../types';
+import { ClientMessage, ServerMessage, OnlineAction } from '../services/onlineProtocol';
+import { GameState, gameReducer, createGameState } from '../services/gameReducer';
+import { createInitialState } from '../services/gameLogic';
+import { getSeatToMove } from '../services/opening';
+import { getRules, isLegalFor } from '../services/rules';
+
+const PORT = Number(process.env.PORT) || 8787;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const CODE_LENGTH = 4;
+const HEARTBEAT_MS = 30000;
+// Rooms nobody is connected to are dropped after this long
+const EMPTY_ROOM_TTL_MS = 30 * 60 * 1000;
+
+const SEATS: Seat[] = [Seat.First, Seat.Second];
+
+interface Room {
+  settings: GameSettings;
+  log: OnlineAction[];
+  game: GameState;                    // The log played out
+  seats: Record<Seat, string | null>; // Client id in each seat
+  sockets: Set<Client>;
+  emptySince: number | null;
+}
+
+type Client = WebSocket & {
+  session: { code: string; room: Room; seat: Seat } | null;
+  alive: boolean;
+};
+
+const rooms = new Map<string, Room>();
+
+const newCode = (): string => {
+  let code: string;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket: Client, message: ServerMessage) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  for (const socket of room.sockets) send(socket, message);
+};
+
+const sendRoom = (socket: Client) => {
+  const { room, code, seat } = socket.session!;
+  send(socket, { type: 'room', code, seat, settings: room.settings, log: room.log });
+};
+
+const sendPresence = (room: Room) => {
+  const online = Object.fromEntries(SEATS.map(seat => [
+    seat,
+    [...room.sockets].some(socket => socket.session?.seat === seat),
+  ])) as Record<Seat, boolean>;
+  broadcast(room, { type: 'presence', online });
+};
+
+const enter = (socket: Client, code: string, room: Room, seat: Seat) => {
+  socket.session = { code, room, seat };
+  room.sockets.add(socket);
+  room.emptySince = null;
+  sendRoom(socket);
+  sendPresence(room);
+};
+
+// Moves and opening steps belong to the seat to act; a resignation to the seat resigning
+const mayPlay = (room: Room, seat: Seat, action: OnlineAction): boolean => {
+  if (action.type === 'resign') return action.seat === seat;
+  return !room.game.board.result && getSeatToMove(room.game.board) === seat;
+};
+
+// The game after this action, or null if the action is not legal there
+const playOut = (game: GameState, action: OnlineAction): GameState | null => {
+  const { board } = game;
+  // The reducer places stones on forbidden points (Renju, Omok); the clients never do
+  if (action.type === 'move' && !isLegalFor(getRules(board.rule, board.winLength), board.grid, action.row, action.col, board.currentPlayer)) {
+    return null;
+  }
+  const next = gameReducer(game, action);
+  return next === game ? null : next;
+};
+
+const handle = (socket: Client, message: ClientMessage) => {
+  switch (message.type) {
+    case 'create': {
+      const code = newCode();
+      const room: Room = {
+        settings: message.settings,
+        log: [],
+        game: createGameState(createInitialState(message.settings)),
+        seats: { [Seat.First]: message.clientId, [Seat.Second]: null },
+        sockets: new Set(),
+        emptySince: null,
+      };
+      rooms.set(code, room);
+      enter(socket, code, room, Seat.First);
+      return;
+    }
+
+    case 'join': {
+      const code = String(message.code).toUpperCase();
+      const room = rooms.get(code);
+      if (!room) return send(socket, { type: 'error', reason: 'not-found' });
+      // A returning client gets its seat back; a new one takes the free seat
+      let seat = SEATS.find(s => room.seats[s] === message.clientId);
+      if (!seat) {
+        seat = SEATS.find(s => room.seats[s] === null);
+        if (!seat) return send(socket, { type: 'error', reason: 'full' });
+        room.seats[seat] = message.clientId;
+      }
+      enter(socket, code, room, seat);
+      return;
+    }
+
+    case 'action': {
+      if (!socket.session) return;
+      const { room, seat } = socket.session;
+      // Played on an old position (the other move got here first): resend the room
+      if (message.index !== room.log.length) return sendRoom(socket);
+      if (!mayPlay(room, seat, message.action)) return send(socket, { type: 'error', reason: 'not-your-turn' });
+      const next = playOut(room.game, message.action);
+      if (!next) return send(socket, { type: 'error', reason: 'illegal-action' });
+      room.log.push(message.action);
+      room.game = next;
+      broadcast(room, { type: 'action', index: message.index, action: message.action });
+      return;
+    }
+
+    case 'sync':
+      if (socket.session) sendRoom(socket);
+      return;
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (ws: WebSocket) => {
+  const socket = ws as Client;
+  socket.session = null;
+  socket.alive = true;
+  socket.on('pong', () => { socket.alive = true; });
+
+  socket.on('message', (data: Buffer) => {
+    try {
+      handle(socket, JSON.parse(data.toString()));
+    } catch (error) {
+      send(socket, { type: 'error', reason: 'bad-message' });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!socket.session) return;
+    const { room } = socket.session;
+    room.sockets.delete(socket);
+    if (room.sockets.size === 0) room.emptySince = Date.now();
+    sendPresence(room);
+  });
+});
+
+// Drop connections that stopped answering, and rooms left empty for too long
+setInterval(() => {
+  for (const socket of server.clients as Set<Client>) {
+    if (!socket.alive) {
+      socket.terminate();
+      continue;
+    }
+    socket.alive = false;
+    socket.ping();
+  }
+  for (const [code, room] of rooms) {
+    if (room.emptySince !== null && Date.now() - room.emptySince > EMPTY_ROOM_TTL_MS) rooms.delete(code);
+  }
+}, HEARTBEAT_MS);
+
+console.log(`Gomoku relay listening on ws://localhost:${PORT}`);
@@ -0,0 +1,261 @@
+// Round-robin matches between AI levels, for tuning the evaluation without
+// the app. Run with `npm run tournament -- [options] [players...]`:
+//
+//   players          easy, medium, master (the default line-up), hard (an LLM,
+//                    see below) or engine:<path> for a Gomocup engine
+//   --games <n>      games per pairing, colours alternating (default 2)
+//   --time <ms>      thinking time per move (default 500)
+//   --rule <name>    freestyle, standard, renju, caro or omok (default freestyle)
+//   --size <n>       board size (default 15)
+//
+// Prints every result as it comes in, then win rates, average game length
+// and an Elo estimate on the scale of the player profiles.
+//
+// Hard asks Gemini (GEMINI_API_KEY), or any OpenAI-compatible endpoint with
+// LLM_PROVIDER=openai and LLM_BASE_URL; LLM_MODEL, LLM_API_KEY and
+// LLM_TEMPERATURE override the defaults.
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { BoardState, Coordinates, Difficulty, GameResult, Player, RuleVariant } from '../types';
+import { BOARD_SIZE, WIN_COUNT } from '../constants';
+import { createInitialState, applyMove } from '../services/gameLogic';
+import { getBestMove } from '../services/geminiService';
+import { LLMSettings, DEFAULT_LLM_SETTINGS } from '../services/llmProvider';
+import { isLegalMove } from '../services/rules';
+import { DEFAULT_ENGINE_OPTIONS } from '../services/searchEngine';
+import { boardCommand, parsePoint, ruleCode } from '../services/gomocupProtocol';
+import { AI_RATINGS, INITIAL_RATING, expectedScore } from '../services/profiles';
+
+interface MovePicker {
+  move: (board: BoardState) => Promise<Coordinates>;
+  close: () => void;
+}
+
+interface Entrant {
+  name: string;
+  difficulty: Difficulty | null; // Built-in levels only
+  start: () => Promise<MovePicker>;
+}
+
+interface Tally {
+  wins: number;
+  losses: number;
+  draws: number;
+  moves: number;
+}
+
+const LEVELS: { [name: string]: Difficulty } = {
+  easy: Difficulty.Easy,
+  medium: Difficulty.Medium,
+  hard: Difficulty.Hard,
+  master: Difficulty.Master,
+};
+
+const RULES: { [name: string]: RuleVariant } = {
+  freestyle: RuleVariant.Freestyle,
+  standard: RuleVariant.Standard,
+  renju: RuleVariant.Renju,
+  caro: RuleVariant.Caro,
+  omok: RuleVariant.Omok,
+};
+
+// Elo fitting: every pairing also counts one draw, which keeps the estimate
+// finite when one side wins every game
+const PRIOR_DRAWS = 1;
+const FIT_ROUNDS = 500;
+const FIT_STEP = 400;
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (args: string[]) => {
+  const options = { games: 2, timeMs: 500, rule: RuleVariant.Freestyle, size: BOARD_SIZE, players: [] as string[] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => args[++i] ?? fail(`${arg} needs a value`);
+    if (arg === '--games') options.games = Number(value());
+    else if (arg === '--time') options.timeMs = Number(value());
+    else if (arg === '--rule') options.rule = RULES[value().toLowerCase()] ?? fail(`Unknown rule ${args[i]}`);
+    else if (arg === '--size') options.size = Number(value());
+    else options.players.push(arg);
+  }
+  if (options.players.length === 0) options.players = ['easy', 'medium', 'master'];
+  if (options.players.length < 2) fail('A tournament needs at least two players');
+  return options;
+};
+
+const options = parseArgs(process.argv.slice(2));
+
+const llm: LLMSettings = {
+  provider: process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'gemini',
+  model: process.env.LLM_MODEL ?? '',
+  baseUrl: process.env.LLM_BASE_URL ?? '',
+  apiKey: process.env.LLM_API_KEY ?? process.env.GEMINI_API_KEY ?? '',
+  temperature: Number(process.env.LLM_TEMPERATURE ?? DEFAULT_LLM_SETTINGS.temperature),
+};
+
+const builtIn = (name: string, difficulty: Difficulty): Entrant => ({
+  name,
+  difficulty,
+  start: async () => ({
+    move: board => getBestMove(llm, board.grid, board.currentPlayer, difficulty, board.rule, board.winLength, {
+      ...DEFAULT_ENGINE_OPTIONS,
+      timeLimitMs: options.timeMs,
+    }),
+    close: () => {},
+  }),
+});
+
+// A Gomocup engine over its standard input and output, started once per game
+// and sent the whole position before every move
+const gomocupEngine = (path: string): Entrant => ({
+  name: path.split(/[\\/]/).pop() ?? path,
+  difficulty: null,
+  start: () => new Promise((resolve, reject) => {
+    const child = spawn(path, [], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const send = (lines: string[]) => child.stdin.write(lines.map(line => `${line}\n`).join(''));
+    let waiting: ((line: string) => void) | null = null;
+    createInterface({ input: child.stdout }).on('line', line => waiting?.(line.trim()));
+    child.on('error', reject);
+
+    const picker: MovePicker = {
+      move: board => new Promise((resolveMove, rejectMove) => {
+        const timer = setTimeout(() => rejectMove(new Error('Engine did not answer in time')), options.timeMs * 3 + 5000);
+        waiting = line => {
+          if (/^(ERROR|UNKNOWN)\b/.test(line)) rejectMove(new Error(`Engine: ${line}`));
+          const move = parsePoint(line);
+          if (!move) return;
+          clearTimeout(timer);
+          waiting = null;
+          resolveMove(move);
+        };
+        const empty = board.history.length === 0;
+        send([`INFO timeout_turn ${options.timeMs}`, ...(empty ? ['BEGIN'] : boardCommand(board.grid, board.currentPlayer))]);
+      }),
+      close: () => {
+        send(['END']);
+        setTimeout(() => child.kill(), 1000).unref();
+      },
+    };
+
+    waiting = line => {
+      if (line === 'OK') {
+        waiting = null;
+        send(['INFO timeout_match 0', `INFO rule ${ruleCode(options.rule)}`]);
+        resolve(picker);
+      } else if (/^(ERROR|UNKNOWN)\b/.test(line)) {
+        reject(new Error(`Engine: ${line}`));
+      }
+    };
+    send([`START ${options.size}`]);
+  }),
+});
+
+const entrants: Entrant[] = options.players.map(player => {
+  if (player.startsWith('engine:')) return gomocupEngine(player.slice('engine:'.length));
+  const difficulty = LEVELS[player.toLowerCase()] ?? fail(`Unknown player ${player}`);
+  return builtIn(player[0].toUpperCase() + player.slice(1).toLowerCase(), difficulty);
+});
+
+// A move that is not legal, or no move at all, loses the game
+const playGame = async (black: Entrant, white: Entrant): Promise<{ result: GameResult; moves: number }> => {
+  let board = createInitialState({ rule: options.rule, boardSize: options.size, winLength: WIN_COUNT });
+  const pickers = { [Player.Black]: await black.start(), [Player.White]: await white.start() } as { [player: number]: MovePicker };
+  try {
+    while (!board.result) {
+      const player = board.currentPlayer;
+      const move = await pickers[player].move(board).catch(error => {
+        console.error(`  ${(player === Player.Black ? black : white).name}: ${error.message}`);
+        return null;
+      });
+      if (!move || move.row >= board.boardSize || move.col >= board.boardSize
+        || !isLegalMove(board.grid, move.row, move.col, player, board.rule, board.winLength)) {
+        const winner = player === Player.Black ? Player.White : Player.Black;
+        return { result: { winner, reason: 'resignation' }, moves: board.history.length };
+      }
+      board = applyMove(board, move.row, move.col);
+    }
+    return { result: board.result, moves: board.history.length };
+  } finally {
+    pickers[Player.Black].close();
+    pickers[Player.White].close();
+  }
+};
+
+// Ratings that best explain the scores between every pair
+const fitRatings = (scores: number[][], games: number[][]): number[] => {
+  const ratings = entrants.map(() => INITIAL_RATING);
+  for (let round = 0; round < FIT_ROUNDS; round++) {
+    entrants.forEach((_, i) => {
+      let actual = 0;
+      let expected = 0;
+      let played = 0;
+      entrants.forEach((_, j) => {
+        if (i === j || games[i][j] === 0) return;
+        actual += scores[i][j] + PRIOR_DRAWS / 2;
+        expected += (games[i][j] + PRIOR_DRAWS) * expectedScore(ratings[i], ratings[j]);
+        played += games[i][j] + PRIOR_DRAWS;
+      });
+      if (played > 0) ratings[i] += (FIT_STEP * (actual - expected)) / played;
+    });
+  }
+  // Only differences mean anything: put the first built-in level with a known rating where the profiles have it
+  const anchor = entrants.findIndex(entrant => entrant.difficulty && AI_RATINGS[entrant.difficulty] !== undefined);
+  const shift = anchor >= 0 ? AI_RATINGS[entrants[anchor].difficulty!]! - ratings[anchor] : 0;
+  return ratings.map(rating => Math.round(rating + shift));
+};
+
+const run = async () => {
+  const records: Tally[] = entrants.map(() => ({ wins: 0, losses: 0, draws: 0, moves: 0 }));
+  const scores = entrants.map(() => entrants.map(() => 0));
+  const games = entrants.map(() => entrants.map(() => 0));
+  const total = (entrants.length * (entrants.length - 1)) / 2 * options.games;
+  let played = 0;
+
+  for (let i = 0; i < entrants.length; i++) {
+    for (let j = i + 1; j < entrants.length; j++) {
+      for (let game = 0; game < options.games; game++) {
+        const [black, white] = game % 2 === 0 ? [i, j] : [j, i];
+        const { result, moves } = await playGame(entrants[black], entrants[white]);
+        const blackScore = result.winner === null ? 0.5 : result.winner === Player.Black ? 1 : 0;
+        for (const [side, score] of [[black, blackScore], [white, 1 - blackScore]]) {
+          const record = records[side];
+          if (score === 1) record.wins++;
+          else if (score === 0) record.losses++;
+          else record.draws++;
+          record.moves += moves;
+        }
+        scores[black][white] += blackScore;
+        scores[white][black] += 1 - blackScore;
+        games[black][white]++;
+        games[white][black]++;
+        played++;
+        const outcome = result.winner === null ? 'draw' : `${result.winner === Player.Black ? 'black' : 'white'} wins`;
+        console.log(`[${played}/${total}] ${entrants[black].name} (black) vs ${entrants[white].name} (white): ${outcome} (${result.reason}), ${moves} moves`);
+      }
+    }
+  }
+
+  const ratings = fitRatings(scores, games);
+  console.log();
+  console.table(entrants.map((entrant, i) => {
+    const { wins, losses, draws, moves } = records[i];
+    const count = wins + losses + draws;
+    return {
+      player: entrant.name,
+      games: count,
+      wins,
+      losses,
+      draws,
+      score: `${Math.round(((wins + draws / 2) / count) * 100)}%`,
+      'avg moves': Math.round(moves / count),
+      elo: ratings[i],
+    };
+  }));
+  process.exit(0);
+};
+
+run().catch(error => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,165 @@
+import { Player, Difficulty, RuleVariant, BoardState, OpeningAction } from '../types';
+import { EngineOptions, SearchResult } from './searchEngine';
+import { ThreatKind, ThreatResult, DEFAULT_SOLVER_OPTIONS } from './threatSolver';
+import { MoveReview } from './coach';
+import { AIMove } from './geminiService';
+import { LLMSettings } from './llmProvider';
+import { PuzzleReply } from './puzzles';
+import { AIRequest, AIResponse } from './aiProtocol';
+
+// Main-thread side of the AI worker. Every task gets its own worker, so
+// cancelling (or running out of time) simply terminates it: the search is
+// synchronous and could not read a cancel message until it had finished.
+
+export interface AITask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+// Extra time on top of the search budget for worker start-up and the VCF/VCT checks
+const TIMEOUT_GRACE_MS = 3000;
+// The LLM is a network call with its own fallback, so it gets a fixed allowance,
+// enough for the retries after rejected moves
+const LLM_TIMEOUT_MS = 45000;
+// Outside engines are started afresh for every move and may take a while to load
+const ENGINE_START_MS = 10000;
+// A whole game is scored position by position, which takes a while on long games
+const ANALYSIS_TIMEOUT_MS = 30000;
+
+export const AI_CANCELLED = 'AI task cancelled';
+
+let nextId = 1;
+
+// Omit that keeps each member of the request union separate
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+const timeLimitFor = (request: WithoutId<AIRequest>): number => {
+  if (request.type === 'solve') return DEFAULT_SOLVER_OPTIONS.timeLimitMs + TIMEOUT_GRACE_MS;
+  if (request.type === 'analyse') return ANALYSIS_TIMEOUT_MS;
+  // Finding the reply and checking the win still stands are a solver run each
+  if (request.type === 'puzzle') return 3 * DEFAULT_SOLVER_OPTIONS.timeLimitMs + TIMEOUT_GRACE_MS;
+  if (request.type !== 'evaluate' && request.difficulty === Difficulty.Hard) return LLM_TIMEOUT_MS;
+  if (request.type !== 'evaluate' && request.difficulty === Difficulty.Engine) return request.engineOptions.timeLimitMs + ENGINE_START_MS;
+  return request.engineOptions.timeLimitMs + TIMEOUT_GRACE_MS;
+};
+
+const runTask = <T>(
+  request: WithoutId<AIRequest>,
+  pickResult: (message: AIResponse) => T | undefined,
+  onProgress?: (progress: SearchResult) => void
+): AITask<T> => {
+  const id = nextId++;
+  const worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+  let settle: { resolve: (value: T) => void; reject: (error: Error) => void } | null = null;
+
+  const finish = (error: Error | null, value?: T) => {
+    if (!settle) return;
+    const { resolve, reject } = settle;
+    settle = null;
+    clearTimeout(timer);
+    worker.terminate();
+    if (error) reject(error);
+    else resolve(value as T);
+  };
+
+  const timer = setTimeout(
+    () => finish(new Error(`AI did not answer within ${timeLimitFor(request)} ms`)),
+    timeLimitFor(request)
+  );
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  worker.onmessage = ({ data: message }: MessageEvent<AIResponse>) => {
+    if (message.id !== id) return;
+    if (message.type === 'progress') {
+      onProgress?.(message.progress);
+    } else if (message.type === 'error') {
+      finish(new Error(message.message));
+    } else {
+      const result = pickResult(message);
+      if (result !== undefined) finish(null, result);
+    }
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    finish(new Error(event.message || 'AI worker failed'));
+  };
+
+  worker.postMessage({ ...request, id } as AIRequest);
+
+  return { promise, cancel: () => finish(new Error(AI_CANCELLED)) };
+};
+
+export const requestBestMove = (
+  llm: LLMSettings,
+  grid: Player[][],
+  player: Player,
+  difficulty: Difficulty,
+  rule: RuleVariant,
+  winLength: number,
+  engineOptions: EngineOptions,
+  onProgress?: (progress: SearchResult) => void
+): AITask<AIMove> => runTask(
+  { type: 'move', llm, grid, player, difficulty, rule, winLength, engineOptions },
+  message => (message.type === 'move' ? message.move : undefined),
+  onProgress
+);
+
+export const requestOpeningAction = (
+  llm: LLMSettings,
+  state: BoardState,
+  difficulty: Difficulty,
+  engineOptions: EngineOptions,
+  onProgress?: (progress: SearchResult) => void
+): AITask<OpeningAction> => runTask(
+  { type: 'opening', llm, state, difficulty, engineOptions },
+  message => (message.type === 'opening' ? message.action : undefined),
+  onProgress
+);
+
+// A short search is enough to tell whether the AI stands better
+const DRAW_EVALUATION_OPTIONS: EngineOptions = { timeLimitMs: 800, maxDepth: 6 };
+// The AI accepts a draw unless it is ahead by more than this
+const DRAW_ACCEPT_SCORE = 0;
+
+// Whether the AI playing `aiColor` agrees to a draw in this position
+export const requestDrawAnswer = (state: BoardState, aiColor: Player): AITask<boolean> => runTask(
+  { type: 'evaluate', grid: state.grid, player: state.currentPlayer, rule: state.rule, winLength: state.winLength, engineOptions: DRAW_EVALUATION_OPTIONS },
+  message => {
+    if (message.type !== 'evaluate') return undefined;
+    const aiScore = state.currentPlayer === aiColor ? message.score : -message.score;
+    return aiScore <= DRAW_ACCEPT_SCORE;
+  }
+);
+
+// The result is wrapped because "no forced win" (null) is a valid answer
+export const requestForcedWin = (
+  grid: Player[][],
+  player: Player,
+  rule: RuleVariant,
+  winLength: number
+): AITask<{ result: ThreatResult | null }> => runTask(
+  { type: 'solve', grid, player, rule, winLength },
+  message => (message.type === 'solve' ? { result: message.result } : undefined)
+);
+
+// Quality marks and the evaluation after every move of a finished game
+export const requestGameAnalysis = (state: BoardState): AITask<MoveReview[]> => runTask(
+  { type: 'analyse', moves: state.history, fixedMoves: state.fixedMoves, boardSize: state.boardSize, rule: state.rule, winLength: state.winLength },
+  message => (message.type === 'analyse' ? message.reviews : undefined)
+);
+
+// The defender's answer to the move just played in a puzzle
+export const requestPuzzleReply = (
+  grid: Player[][],
+  player: Player,
+  rule: RuleVariant,
+  winLength: number,
+  kind: ThreatKind,
+  movesLeft: number
+): AITask<PuzzleReply> => runTask(
+  { type: 'puzzle', grid, player, rule, winLength, kind, movesLeft },
+  message => (message.type === 'puzzle' ? message.reply : undefined)
+);
@@ -0,0 +1,80 @@
+import { Player, Difficulty, RuleVariant, BoardState, OpeningAction, Move } from '../types';
+import { EngineOptions, SearchResult } from './searchEngine';
+import { ThreatKind, ThreatResult } from './threatSolver';
+import { MoveReview } from './coach';
+import { AIMove } from './geminiService';
+import { LLMSettings } from './llmProvider';
+import { PuzzleReply } from './puzzles';
+
+// Messages between the app and the AI worker. Each request carries an id that
+// the progress and result messages for it echo back.
+
+export type AIRequest =
+  | {
+      type: 'move';
+      id: number;
+      llm: LLMSettings;
+      grid: Player[][];
+      player: Player;
+      difficulty: Difficulty;
+      rule: RuleVariant;
+      winLength: number;
+      engineOptions: EngineOptions;
+    }
+  | {
+      type: 'opening';
+      id: number;
+      llm: LLMSettings;
+      state: BoardState;
+      difficulty: Difficulty;
+      engineOptions: EngineOptions;
+    }
+  | {
+      type: 'solve';
+      id: number;
+      grid: Player[][];
+      player: Player;
+      rule: RuleVariant;
+      winLength: number;
+    }
+  // How good the position is for `player`, who is to move
+  | {
+      type: 'evaluate';
+      id: number;
+      grid: Player[][];
+      player: Player;
+      rule: RuleVariant;
+      winLength: number;
+      engineOptions: EngineOptions;
+    }
+  // A finished game, move by move after the `fixedMoves` it starts from
+  | {
+      type: 'analyse';
+      id: number;
+      moves: Move[];
+      fixedMoves: number;
+      boardSize: number;
+      rule: RuleVariant;
+      winLength: number;
+    }
+  // The defender's reply in a puzzle, `player` defending
+  | {
+      type: 'puzzle';
+      id: number;
+      grid: Player[][];
+      player: Player;
+      rule: RuleVariant;
+      winLength: number;
+      kind: ThreatKind;
+      movesLeft: number;
+    };
+
+export type AIResponse =
+  | { type: 'progress'; id: number; progress: SearchResult }
+  | { type: 'move'; id: number; move: AIMove }
+  | { type: 'opening'; id: number; action: OpeningAction }
+  | { type: 'solve'; id: number; result: ThreatResult | null }
+  | { type: 'evaluate'; id: number; score: number }
+  | { type: 'analyse'; id: number; reviews: MoveReview[] }
+  | { type: 'puzzle'; id: number; reply: PuzzleReply }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,60 @@
+import { getBestMove, getOpeningAction } from './geminiService';
+import { findForcedWin } from './threatSolver';
+import { getRules } from './rules';
+import { SearchResult, searchBestMove } from './searchEngine';
+import { analyseGame } from './coach';
+import { defendPuzzle } from './puzzles';
+import { AIRequest, AIResponse } from './aiProtocol';
+
+// AI worker: runs one request off the main thread and posts back progress
+// and the result. The worker scope is not in the DOM typings, so only the
+// parts we use are described here.
+const scope = self as unknown as {
+  postMessage: (message: AIResponse) => void;
+  onmessage: ((event: MessageEvent<AIRequest>) => void) | null;
+};
+
+scope.onmessage = async ({ data: request }) => {
+  const { id } = request;
+  const onProgress = (progress: SearchResult) => scope.postMessage({ type: 'progress', id, progress });
+
+  try {
+    switch (request.type) {
+      case 'move': {
+        const { llm, grid, player, difficulty, rule, winLength, engineOptions } = request;
+        const move = await getBestMove(llm, grid, player, difficulty, rule, winLength, engineOptions, onProgress);
+        scope.postMessage({ type: 'move', id, move });
+        break;
+      }
+      case 'opening': {
+        const { llm, state, difficulty, engineOptions } = request;
+        const action = await getOpeningAction(llm, state, difficulty, engineOptions, onProgress);
+        scope.postMessage({ type: 'opening', id, action });
+        break;
+      }
+      case 'solve': {
+        const result = findForcedWin(request.grid, request.player, getRules(request.rule, request.winLength));
+        scope.postMessage({ type: 'solve', id, result });
+        break;
+      }
+      case 'evaluate': {
+        const { grid, player, rule, winLength, engineOptions } = request;
+        const { score } = searchBestMove(grid, player, getRules(rule, winLength), engineOptions);
+        scope.postMessage({ type: 'evaluate', id, score });
+        break;
+      }
+      case 'analyse': {
+        const { moves, fixedMoves, boardSize, rule, winLength } = request;
+        scope.postMessage({ type: 'analyse', id, reviews: analyseGame(moves, fixedMoves, boardSize, rule, winLength) });
+        break;
+      }
+      case 'puzzle': {
+        const { grid, player, rule, winLength, kind, movesLeft } = request;
+        scope.postMessage({ type: 'puzzle', id, reply: defendPuzzle(grid, player, getRules(rule, winLength), kind, movesLeft) });
+        break;
+      }
+    }
+  } catch (error) {
+    scope.postMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,138 @@
+import { ClockState, Seat, TimeControl } from '../types';
+
+// Game clocks. All functions are pure and take the current time as `now`, so
+// the reducer stays deterministic and saved clocks can be restored anywhere.
+
+export const NO_TIME_CONTROL: TimeControl = { type: 'none' };
+
+export type TimeControlType = TimeControl['type'];
+
+export const TIME_CONTROL_TYPES: TimeControlType[] = ['none', 'sudden-death', 'fischer', 'byoyomi'];
+
+export const TIME_CONTROL_LABELS: Record<TimeControlType, string> = {
+  'none': '不计时',
+  'sudden-death': '包干',
+  'fischer': '加秒',
+  'byoyomi': '读秒',
+};
+
+// Every setting a time control can have, so switching type keeps the rest
+export interface TimeControlValues {
+  mainMs: number;
+  incrementMs: number;
+  periods: number;
+  periodMs: number;
+}
+
+const DEFAULT_VALUES: TimeControlValues = { mainMs: 10 * 60000, incrementMs: 5000, periods: 3, periodMs: 30000 };
+
+export const timeControlValues = (control: TimeControl): TimeControlValues => {
+  const { type, ...values } = control;
+  return { ...DEFAULT_VALUES, ...values };
+};
+
+export const buildTimeControl = (type: TimeControlType, values: TimeControlValues): TimeControl => {
+  const { mainMs, incrementMs, periods, periodMs } = values;
+  switch (type) {
+    case 'none': return NO_TIME_CONTROL;
+    case 'sudden-death': return { type, mainMs };
+    case 'fischer': return { type, mainMs, incrementMs };
+    case 'byoyomi': return { type, mainMs, periods, periodMs };
+  }
+};
+
+export const createClock = (control: TimeControl): ClockState | null => {
+  if (control.type === 'none') return null;
+  const periods = control.type === 'byoyomi' ? control.periods : 0;
+  return {
+    control,
+    remaining: { [Seat.First]: control.mainMs, [Seat.Second]: control.mainMs },
+    periods: { [Seat.First]: periods, [Seat.Second]: periods },
+    running: null,
+    turnStart: null,
+    turnUsed: 0,
+    flagged: null,
+  };
+};
+
+export interface ClockReading {
+  mainMs: number;          // Main time left (0 once in byoyomi)
+  periodMs: number | null; // Byoyomi: time left in the current period
+  periods: number;         // Byoyomi periods left, including the current one
+  expired: boolean;
+}
+
+const elapsedOf = (clock: ClockState, now: number): number =>
+  clock.turnUsed + (clock.turnStart !== null ? now - clock.turnStart : 0);
+
+// Charge `elapsed` to a seat's time
+const spend = (clock: ClockState, seat: Seat, elapsed: number): ClockReading => {
+  const { control } = clock;
+  const main = clock.remaining[seat] - elapsed;
+  if (control.type !== 'byoyomi') {
+    return { mainMs: Math.max(0, main), periodMs: null, periods: 0, expired: main <= 0 };
+  }
+  if (main > 0) return { mainMs: main, periodMs: control.periodMs, periods: clock.periods[seat], expired: false };
+  // Every full period overrun costs a period
+  const over = -main;
+  const periods = clock.periods[seat] - Math.floor(over / control.periodMs);
+  return {
+    mainMs: 0,
+    periodMs: periods > 0 ? control.periodMs - (over % control.periodMs) : 0,
+    periods: Math.max(0, periods),
+    expired: periods <= 0,
+  };
+};
+
+// What a seat's clock shows right now
+export const readClock = (clock: ClockState, seat: Seat, now: number): ClockReading =>
+  spend(clock, seat, clock.running === seat ? elapsedOf(clock, now) : 0);
+
+// The seat whose time has run out, if any
+export const timeExpired = (clock: ClockState, now: number): Seat | null => {
+  if (clock.flagged) return clock.flagged;
+  return clock.running && readClock(clock, clock.running, now).expired ? clock.running : null;
+};
+
+// End the running turn and start `next` (null stops the clocks). `moved`
+// gives the Fischer increment; takebacks just hand the turn over.
+export const passTurn = (clock: ClockState, next: Seat | null, now: number, moved: boolean): ClockState => {
+  let { remaining, periods } = clock;
+  const seat = clock.running;
+  if (seat) {
+    const reading = spend(clock, seat, elapsedOf(clock, now));
+    const increment = moved && clock.control.type === 'fischer' ? clock.control.incrementMs : 0;
+    remaining = { ...remaining, [seat]: reading.mainMs + increment };
+    periods = { ...periods, [seat]: reading.periods };
+  }
+  return { ...clock, remaining, periods, running: next, turnStart: next ? now : null, turnUsed: 0 };
+};
+
+export const pauseClock = (clock: ClockState, now: number): ClockState =>
+  clock.turnStart === null ? clock : { ...clock, turnUsed: elapsedOf(clock, now), turnStart: null };
+
+export const resumeClock = (clock: ClockState, now: number): ClockState =>
+  clock.running === null || clock.turnStart !== null ? clock : { ...clock, turnStart: now };
+
+export const isClockPaused = (clock: ClockState): boolean => clock.running !== null && clock.turnStart === null;
+
+// Time for the engine to think on this move: a slice of the main time plus
+// most of the increment or byoyomi period, so it never flags itself
+export const thinkingBudget = (clock: ClockState, seat: Seat, now: number): number => {
+  const reading = readClock(clock, seat, now);
+  const { control } = clock;
+  let budget = reading.mainMs / 25;
+  if (control.type === 'fischer') budget += control.incrementMs * 0.8;
+  if (control.type === 'byoyomi') budget += (reading.periodMs ?? 0) * 0.6;
+  return Math.max(100, Math.floor(budget));
+};
+
+// 1:05:09, 4:09, or 9.5 under ten seconds
+export const formatClock = (ms: number): string => {
+  if (ms < 10000) return (Math.max(0, ms) / 1000).toFixed(1);
+  const total = Math.ceil(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
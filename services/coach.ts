@@ -0,0 +1,118 @@
+import { Coordinates, Move, Player, RuleVariant } from '../types';
+import { createEmptyGrid } from './gameLogic';
+import { getRules, isLegalFor, GameRules } from './rules';
+import { scoreMoves, evaluateBalance } from './geminiService';
+
+// Coaching built on the Medium heuristic: hints for the side to move, and a
+// pass over a finished game that compares every move with the best few
+// candidates the heuristic sees.
+
+export interface Hint {
+  move: Coordinates;
+  score: number; // Heuristic score of the point, higher is better
+}
+
+export type MoveQuality = 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveReview {
+  quality: MoveQuality;
+  loss: number;         // How much worse the position got than after the best candidate, for the player who moved
+  best: Coordinates;    // The best candidate
+  missedWin: boolean;   // A five was there to be made
+  missedBlock: boolean; // The opponent's only five was left open
+  evaluation: number;   // After the move, positive favours Black (capped at ±EVALUATION_CAP)
+}
+
+export const HINT_COUNT = 3;
+// A made five, and the bound the evaluation graph is drawn to
+export const EVALUATION_CAP = 100000;
+// Candidates compared with each move played
+const CANDIDATES = 8;
+// Losses (in evaluateBalance units) from which a move counts as worse than good
+const QUALITY_THRESHOLDS: [MoveQuality, number][] = [
+  ['blunder', 4000],
+  ['mistake', 1500],
+  ['inaccuracy', 500],
+];
+
+export const getHints = (grid: Player[][], player: Player, rule: RuleVariant, winLength: number): Hint[] =>
+  scoreMoves(grid, player, getRules(rule, winLength)).slice(0, HINT_COUNT);
+
+// Short enough to fit on a board point
+export const formatHintScore = (score: number): string =>
+  score >= 1000 ? `${Math.round(score / 1000)}k` : String(Math.round(score));
+
+const opponentOf = (player: Player): Player => (player === Player.Black ? Player.White : Player.Black);
+
+const makesFive = (grid: Player[][], { row, col }: Coordinates, player: Player, rules: GameRules): boolean => {
+  grid[row][col] = player;
+  const wins = rules.checkWin(grid, row, col, player) !== null;
+  grid[row][col] = Player.None;
+  return wins;
+};
+
+// Points where `player` would make a five right away
+const winningPoints = (grid: Player[][], player: Player, rules: GameRules): Coordinates[] => {
+  const points: Coordinates[] = [];
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid.length; col++) {
+      if (grid[row][col] !== Player.None || !makesFive(grid, { row, col }, player, rules)) continue;
+      if (isLegalFor(rules, grid, row, col, player)) points.push({ row, col });
+    }
+  }
+  return points;
+};
+
+// The position after `player` plays `move`, from that player's point of view
+const valueAfter = (grid: Player[][], move: Coordinates, player: Player, rules: GameRules): number => {
+  if (makesFive(grid, move, player, rules)) return EVALUATION_CAP;
+  grid[move.row][move.col] = player;
+  const balance = evaluateBalance(grid, rules, opponentOf(player));
+  grid[move.row][move.col] = Player.None;
+  const value = player === Player.Black ? balance : -balance;
+  return Math.max(-EVALUATION_CAP, Math.min(EVALUATION_CAP, value));
+};
+
+const sameCell = (a: Coordinates, b: Coordinates) => a.row === b.row && a.col === b.col;
+
+// Reviews the moves after the first `fixedMoves`: the set-up, handicap or
+// opening stones only make the starting position
+export const analyseGame = (moves: Move[], fixedMoves: number, boardSize: number, rule: RuleVariant, winLength: number): MoveReview[] => {
+  const rules = getRules(rule, winLength);
+  const grid = createEmptyGrid(boardSize);
+  for (const stone of moves.slice(0, fixedMoves)) grid[stone.row][stone.col] = stone.player;
+
+  return moves.slice(fixedMoves).map(move => {
+    const player = move.player;
+    const candidates = scoreMoves(grid, player, rules).slice(0, CANDIDATES).map(c => c.move);
+    let best = candidates[0] ?? move;
+    let bestValue = -Infinity;
+    for (const candidate of candidates) {
+      const value = valueAfter(grid, candidate, player, rules);
+      if (value > bestValue) {
+        bestValue = value;
+        best = candidate;
+      }
+    }
+    const played = valueAfter(grid, move, player, rules);
+    const wins = played === EVALUATION_CAP;
+    const missedWin = !wins && winningPoints(grid, player, rules).length > 0;
+    // Two open fives cannot both be blocked; the mistake came earlier
+    const threats = winningPoints(grid, opponentOf(player), rules);
+    const missedBlock = !wins && threats.length === 1 && !sameCell(threats[0], move);
+
+    const loss = Math.max(0, bestValue - played);
+    const quality = missedWin || missedBlock ? 'blunder'
+      : QUALITY_THRESHOLDS.find(([, threshold]) => loss >= threshold)?.[0] ?? 'good';
+
+    grid[move.row][move.col] = player;
+    return {
+      quality,
+      loss,
+      best: bestValue > played ? best : move,
+      missedWin,
+      missedBlock,
+      evaluation: player === Player.Black ? played : -played,
+    };
+  });
+};
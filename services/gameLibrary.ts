@@ -0,0 +1,89 @@
+import { BoardState, Difficulty, GameMode, Player, Seat } from '../types';
+
+// Every game played in this browser, kept in IndexedDB so that a refresh or a
+// closed tab loses nothing. Games are saved as whole boards (moves, rules,
+// opening and clocks), together with who played them and how they ended.
+
+export type SavedResult = 'ongoing' | 'black' | 'white' | 'draw';
+
+export interface SavedGame {
+  id: string;
+  board: BoardState;
+  mode: GameMode;
+  difficulty: Difficulty | null; // AI games only
+  aiSeat: Seat | null;           // AI games only
+  players: Record<Seat, string>;
+  result: SavedResult;
+  moveCount: number;
+  starred: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the app hands over on every change; starring and the creation time are kept from earlier saves
+export type GameRecord = Omit<SavedGame, 'starred' | 'createdAt'>;
+
+const DB_NAME = 'gomoku';
+const DB_VERSION = 1;
+const STORE = 'games';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  return run(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+export const resultOf = (board: BoardState): SavedResult => {
+  if (!board.result) return 'ongoing';
+  if (board.result.winner === Player.Black) return 'black';
+  if (board.result.winner === Player.White) return 'white';
+  return 'draw';
+};
+
+// Newest first
+export const listGames = (): Promise<SavedGame[]> =>
+  withStore('readonly', async store => (await settle(store.index('updatedAt').getAll())).reverse());
+
+export const saveGame = (record: GameRecord): Promise<void> =>
+  withStore('readwrite', async store => {
+    const existing: SavedGame | undefined = await settle(store.get(record.id));
+    await settle(store.put({
+      ...record,
+      starred: existing?.starred ?? false,
+      createdAt: existing?.createdAt ?? record.updatedAt,
+    }));
+  });
+
+export const deleteGame = (id: string): Promise<void> =>
+  withStore('readwrite', async store => {
+    await settle(store.delete(id));
+  });
+
+export const setStarred = (id: string, starred: boolean): Promise<void> =>
+  withStore('readwrite', async store => {
+    const existing: SavedGame | undefined = await settle(store.get(id));
+    if (existing) await settle(store.put({ ...existing, starred }));
+  });
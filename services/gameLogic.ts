@@ -1,65 +1,142 @@
 import { BOARD_SIZE, WIN_COUNT } from '../constants';
-import { Player, BoardState } from '../types';
+import { Player, BoardState, GameSettings, GameResult, RuleVariant, OpeningRule, Seat, Coordinates, Move } from '../types';
+import { getRules } from './rules';
+import { createOpening } from './opening';
+import { createClock, NO_TIME_CONTROL } from './clock';
 
-export const createEmptyGrid = (): Player[][] => {
-  return Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(Player.None));
+export const createEmptyGrid = (size: number = BOARD_SIZE): Player[][] => {
+  return Array(size).fill(null).map(() => Array(size).fill(Player.None));
 };
 
-export const checkWin = (grid: Player[][], lastRow: number, lastCol: number, player: Player): { row: number, col: number }[] | null => {
-  const directions = [
-    [0, 1],   // Horizontal
-    [1, 0],   // Vertical
-    [1, 1],   // Diagonal \
-    [1, -1]   // Diagonal /
-  ];
-
-  for (const [dx, dy] of directions) {
-    const line = [{ row: lastRow, col: lastCol }];
-    
-    // Check forward
-    let r = lastRow + dx;
-    let c = lastCol + dy;
-    while (r >= 0 && r < BOARD_SIZE && c >= 0 && c < BOARD_SIZE && grid[r][c] === player) {
-      line.push({ row: r, col: c });
-      r += dx;
-      c += dy;
-    }
-
-    // Check backward
-    r = lastRow - dx;
-    c = lastCol - dy;
-    while (r >= 0 && r < BOARD_SIZE && c >= 0 && c < BOARD_SIZE && grid[r][c] === player) {
-      line.push({ row: r, col: c });
-      r -= dx;
-      c -= dy;
-    }
-
-    if (line.length >= WIN_COUNT) {
-      return line;
-    }
-  }
+// The grid always follows from the move history
+export const gridFromHistory = (size: number, history: Move[]): Player[][] => {
+  const grid = createEmptyGrid(size);
+  for (const { row, col, player } of history) grid[row][col] = player;
+  return grid;
+};
 
+// Returns the winning line through the last move, or null. What counts as a
+// win depends on the rule variant (see services/rules.ts).
+export const checkWin = (
+  grid: Player[][],
+  lastRow: number,
+  lastCol: number,
+  player: Player,
+  rule: RuleVariant = RuleVariant.Freestyle,
+  winLength: number = WIN_COUNT
+): { row: number, col: number }[] | null => {
+  return getRules(rule, winLength).checkWin(grid, lastRow, lastCol, player);
+};
+
+// The result the position itself decides: a winning line through the last
+// move, or a draw once no empty point is left
+const positionResult = (grid: Player[][], winningLine: Coordinates[] | null, last: Move | undefined): GameResult | null => {
+  if (winningLine && last) return { winner: last.player, reason: 'line' };
+  if (grid.every(row => row.every(cell => cell !== Player.None))) return { winner: null, reason: 'full-board' };
   return null;
 };
 
-// URL Compression logic for sharing game state
-export const serializeBoard = (grid: Player[][]): string => {
-  return grid.flat().join('');
+export const DEFAULT_SETTINGS: GameSettings = {
+  rule: RuleVariant.Freestyle,
+  openingRule: OpeningRule.None,
+  boardSize: BOARD_SIZE,
+  winLength: WIN_COUNT,
+  timeControl: NO_TIME_CONTROL,
 };
 
-export const deserializeBoard = (str: string): Player[][] => {
-  if (str.length !== BOARD_SIZE * BOARD_SIZE) return createEmptyGrid();
-  
-  const grid = createEmptyGrid();
-  let idx = 0;
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
-      const val = parseInt(str[idx]);
-      if (val === 1) grid[r][c] = Player.Black;
-      else if (val === 2) grid[r][c] = Player.White;
-      else grid[r][c] = Player.None;
-      idx++;
-    }
-  }
-  return grid;
-};
\ No newline at end of file
+export const createInitialState = (settings: Partial<GameSettings> = {}): BoardState => {
+  const { rule, openingRule, boardSize, winLength, timeControl } = { ...DEFAULT_SETTINGS, ...settings };
+  const opening = createOpening(openingRule);
+  return {
+    grid: createEmptyGrid(boardSize),
+    currentPlayer: Player.Black,
+    result: null,
+    history: [],
+    winningLine: null,
+    rule,
+    // A line can never be longer than the board
+    boardSize,
+    winLength: Math.min(winLength, boardSize),
+    openingRule,
+    opening,
+    blackSeat: Seat.First,
+    fixedMoves: 0,
+    clock: createClock(timeControl),
+  };
+};
+
+export const getSettings = (state: BoardState): GameSettings => ({
+  rule: state.rule,
+  openingRule: state.openingRule,
+  boardSize: state.boardSize,
+  winLength: state.winLength,
+  timeControl: state.clock?.control ?? NO_TIME_CONTROL,
+});
+
+// Star points (hoshi): a 3x3 pattern on larger boards, just the centre on
+// medium ones and none on tiny boards
+export const getStarPoints = (size: number): number[] => {
+  if (size < 7) return [];
+  const mid = Math.floor(size / 2);
+  if (size < 9) return size % 2 === 1 ? [mid] : [];
+  const edge = size >= 13 ? 3 : 2;
+  return size % 2 === 1 ? [edge, mid, size - 1 - edge] : [edge, size - 1 - edge];
+};
+
+// A point as players write it: column letter, then row number counted from the bottom (H8 is the centre)
+export const formatCoordinates = ({ row, col }: Coordinates, size: number = BOARD_SIZE): string =>
+  `${String.fromCharCode(65 + col)}${size - row}`;
+
+// Place a stone for the side to move in normal play (after the opening)
+export const applyMove = (state: BoardState, row: number, col: number): BoardState => {
+  const player = state.currentPlayer;
+  const history = [...state.history, { row, col, player }];
+  const grid = gridFromHistory(state.boardSize, history);
+
+  const winningLine = checkWin(grid, row, col, player, state.rule, state.winLength);
+
+  return {
+    ...state,
+    grid,
+    currentPlayer: player === Player.Black ? Player.White : Player.Black,
+    result: positionResult(grid, winningLine, history[history.length - 1]),
+    winningLine,
+    history,
+  };
+};
+
+// Remove the last `count` moves (never those before `fixedMoves`). The side
+// to move becomes whoever played the first removed move.
+export const takeBack = (state: BoardState, count: number): BoardState => {
+  const keep = Math.max(state.fixedMoves, state.history.length - count);
+  if (keep >= state.history.length) return state;
+
+  const history = state.history.slice(0, keep);
+  return {
+    ...state,
+    grid: gridFromHistory(state.boardSize, history),
+    currentPlayer: state.history[keep].player,
+    result: null,
+    winningLine: null,
+    history,
+  };
+};
+
+// The position after `moves`, played under the settings of `base`. Used to
+// step through a finished game and its variations.
+export const replayMoves = (base: BoardState, moves: Move[]): BoardState => {
+  const grid = gridFromHistory(base.boardSize, moves);
+  const last = moves[moves.length - 1];
+  const winningLine = last ? checkWin(grid, last.row, last.col, last.player, base.rule, base.winLength) : null;
+
+  return {
+    ...base,
+    grid,
+    currentPlayer: last?.player === Player.Black ? Player.White : Player.Black,
+    result: positionResult(grid, winningLine, last),
+    winningLine,
+    history: moves,
+    opening: null,
+    fixedMoves: Math.min(base.fixedMoves, moves.length),
+  };
+};
@@ -0,0 +1,138 @@
+import { Player, BoardState, Move, OpeningAction, Seat } from '../types';
+import { applyMove, takeBack } from './gameLogic';
+import { applyOpeningAction, getSeatToMove, colorOf, otherSeat } from './opening';
+import { passTurn, pauseClock, resumeClock, timeExpired } from './clock';
+
+// Every change to the game goes through this reducer, so moves are always
+// applied to the current state. Moves that were taken back stay available
+// for redo until a different move is played. Actions that change the turn
+// carry the time (`at`) so that the clocks can be charged; without it the
+// clocks are left alone (e.g. when replaying a log).
+
+export interface GameState {
+  board: BoardState;
+  redo: Move[]; // Moves taken back; the next one to replay is last
+}
+
+export type GameAction =
+  // `expected`: only apply if the board is still this one (drops stale AI results)
+  | { type: 'move'; row: number; col: number; expected?: BoardState; at?: number }
+  | { type: 'opening'; action: OpeningAction; expected?: BoardState; at?: number }
+  | { type: 'undo'; count: number; at?: number }
+  | { type: 'redo'; count: number; at?: number }
+  | { type: 'load'; board: BoardState }
+  // Ending the game away from the board: a seat gives up, or both agree to a draw
+  | { type: 'resign'; seat: Seat; at?: number }
+  | { type: 'draw'; at?: number }
+  // Clock actions: end the game if the time has run out at `at`, or stop and restart the clocks
+  | { type: 'flag'; at: number }
+  | { type: 'pause'; at: number }
+  | { type: 'resume'; at: number };
+
+export const createGameState = (board: BoardState): GameState => ({ board, redo: [] });
+
+// Results decided away from the board are final
+const isFinal = (board: BoardState): boolean =>
+  board.result !== null && board.result.reason !== 'line' && board.result.reason !== 'full-board';
+
+// How many moves could be taken back right now
+export const undoableMoves = (board: BoardState): number =>
+  board.opening || isFinal(board) ? 0 : board.history.length - board.fixedMoves;
+
+// Hand the clock over to whoever is to move after a change from `before` to `after`
+const updateClock = (before: BoardState, after: BoardState, at: number | undefined, moved: boolean): BoardState => {
+  if (!after.clock || at === undefined) return after;
+  const next = after.result ? null : getSeatToMove(after);
+  if (next === getSeatToMove(before) && after.clock.running === next && !after.result) return after;
+  return { ...after, clock: passTurn(after.clock, next, at, moved) };
+};
+
+const reduceGame = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'move': {
+      const { board } = state;
+      if (action.expected && action.expected !== board) return state;
+      if (board.result || board.opening || board.grid[action.row][action.col] !== Player.None) return state;
+
+      // Replaying the move that was taken back keeps the rest of the redo line
+      const top = state.redo[state.redo.length - 1];
+      const redo = top && top.row === action.row && top.col === action.col ? state.redo.slice(0, -1) : [];
+      return { board: applyMove(board, action.row, action.col), redo };
+    }
+
+    case 'opening': {
+      if (action.expected && action.expected !== state.board) return state;
+      const board = applyOpeningAction(state.board, action.action);
+      return board === state.board ? state : { board, redo: [] };
+    }
+
+    case 'undo': {
+      const count = Math.min(action.count, undoableMoves(state.board));
+      if (count <= 0) return state;
+      const taken = state.board.history.slice(-count).reverse();
+      return { board: takeBack(state.board, count), redo: [...state.redo, ...taken] };
+    }
+
+    case 'redo': {
+      let board = state.board;
+      const redo = [...state.redo];
+      for (let i = 0; i < action.count && redo.length > 0 && !board.result; i++) {
+        const move = redo.pop()!;
+        board = applyMove(board, move.row, move.col);
+      }
+      return board === state.board ? state : { board, redo };
+    }
+
+    case 'load':
+      return createGameState(action.board);
+
+    case 'flag': {
+      const { board } = state;
+      if (!board.clock || board.result) return state;
+      const seat = timeExpired(board.clock, action.at);
+      if (!seat) return state;
+      return {
+        ...state,
+        board: {
+          ...board,
+          result: { winner: colorOf(board, otherSeat(seat)), reason: 'timeout' },
+          clock: { ...passTurn(board.clock, null, action.at, false), flagged: seat },
+        },
+      };
+    }
+
+    case 'resign':
+    case 'draw': {
+      const { board } = state;
+      if (board.result) return state;
+      const result = action.type === 'resign'
+        ? { winner: colorOf(board, otherSeat(action.seat)), reason: 'resignation' as const }
+        : { winner: null, reason: 'agreement' as const };
+      return { ...state, board: { ...board, result } };
+    }
+
+    case 'pause':
+    case 'resume': {
+      const { board } = state;
+      if (!board.clock || board.result) return state;
+      const clock = action.type === 'pause' ? pauseClock(board.clock, action.at) : resumeClock(board.clock, action.at);
+      return clock === board.clock ? state : { ...state, board: { ...board, clock } };
+    }
+  }
+};
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  const next = reduceGame(state, action);
+  if (next === state) return state;
+  switch (action.type) {
+    case 'move':
+    case 'opening':
+    case 'undo':
+    case 'redo':
+    case 'resign':
+    case 'draw':
+      return { ...next, board: updateClock(state.board, next.board, action.at, action.type === 'move' || action.type === 'opening') };
+    default:
+      return next;
+  }
+};
@@ -1,6 +1,42 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Player, Coordinates, Difficulty } from "../types";
-import { BOARD_SIZE } from "../constants";
+import { Player, Coordinates, Difficulty, RuleVariant, BoardState, OpeningAction } from "../types";
+import { WIN_COUNT } from "../constants";
+import { getRules, isLegalFor, GameRules } from "./rules";
+import { nextStoneColor, MAX_FIFTH_MOVES } from "./opening";
+import { searchBestMove, EngineOptions, DEFAULT_ENGINE_OPTIONS, SearchResult } from "./searchEngine";
+import { findForcedWin, findForcedWinDefence, SolverOptions } from "./threatSolver";
+import { getEngineMove, DEFAULT_BRIDGE_URL } from "./gomocupClient";
+import { LLMSettings, LLMMessage, createLLMProvider, llmReady } from "./llmProvider";
+
+// What actually chose an AI move, which is not always the level asked for:
+// every level but Easy plays a forced win it finds, and Hard falls back to
+// the Medium heuristic when the LLM gives no legal move
+export type MoveEngine = 'llm' | 'solver' | 'search' | 'heuristic' | 'random' | 'gomocup';
+
+export interface MoveSource {
+  engine: MoveEngine;
+  model?: string;     // LLM moves: provider and model
+  attempts?: number;  // LLM moves: replies it took to get a legal move
+  fallback?: string;  // Why the level's own engine did not play the move
+}
+
+export interface AIMove extends Coordinates {
+  source: MoveSource;
+}
+
+export const MOVE_ENGINE_LABELS: Record<MoveEngine, string> = {
+  llm: 'LLM',
+  solver: 'VCF/VCT 求解',
+  search: 'Master 搜索',
+  heuristic: 'Medium 启发式',
+  random: 'Easy 随机',
+  gomocup: 'Gomocup 引擎',
+};
+
+export const describeMoveSource = (source: MoveSource): string => {
+  const name = source.engine === 'llm' && source.model ? source.model : MOVE_ENGINE_LABELS[source.engine];
+  const retries = source.attempts && source.attempts > 1 ? `（第 ${source.attempts} 次回答）` : '';
+  return source.fallback ? `${name}（替补：${source.fallback}）` : `${name}${retries}`;
+};
 
 // Helper to convert grid to a string representation for the LLM
 const boardToString = (grid: Player[][]): string => {
@@ -10,113 +46,264 @@ const boardToString = (grid: Player[][]): string => {
 };
 
 export const getBestMove = async (
-  apiKey: string,
+  llm: LLMSettings,
   grid: Player[][],
   aiPlayer: Player,
-  difficulty: Difficulty
-): Promise<Coordinates> => {
+  difficulty: Difficulty,
+  rule: RuleVariant = RuleVariant.Freestyle,
+  winLength: number = WIN_COUNT,
+  engineOptions: EngineOptions = DEFAULT_ENGINE_OPTIONS,
+  onProgress?: (progress: SearchResult) => void
+): Promise<AIMove> => {
+  const rules = getRules(rule, winLength);
+
+  if (difficulty === Difficulty.Engine) {
+    // An outside engine finds its own forced wins. It may not know every rule
+    // here, so a move that is not legal counts as a failure.
+    const move = await getEngineMove(engineOptions.bridgeUrl || DEFAULT_BRIDGE_URL, grid, aiPlayer, rule, engineOptions.timeLimitMs);
+    if (move.row >= grid.length || move.col >= grid.length || !isLegalFor(rules, grid, move.row, move.col, aiPlayer)) {
+      throw new Error(`Engine played an illegal move at ${move.col},${move.row}`);
+    }
+    return { ...move, source: { engine: 'gomocup' } };
+  }
+
+  // Every level but Easy plays a forced win it can see and breaks the opponent's
+  if (difficulty !== Difficulty.Easy) {
+    const forced = getForcedMove(grid, aiPlayer, rules);
+    if (forced) return { ...forced, source: { engine: 'solver' } };
+  }
   
-  if (difficulty === Difficulty.Easy) {
+  if (difficulty === Difficulty.Master) {
+    // Master: Local alpha-beta search within the time/depth budget
+    return { ...searchBestMove(grid, aiPlayer, rules, engineOptions, onProgress).move, source: { engine: 'search' } };
+  } else if (difficulty === Difficulty.Easy) {
     // Easy: Pure random (but somewhat smart to pick near existing pieces)
-    return getRandomMove(grid);
+    return { ...getRandomMove(grid, aiPlayer, rules), source: { engine: 'random' } };
   } else if (difficulty === Difficulty.Medium) {
     // Medium: Heuristic based (Blocks wins, finds 3s/4s)
-    return getMediumMove(grid, aiPlayer);
+    return { ...getMediumMove(grid, aiPlayer, rules), source: { engine: 'heuristic' } };
   } else {
-    // Hard: Uses Gemini LLM
-    return getHardMove(apiKey, grid, aiPlayer);
+    // Hard: Asks the configured LLM
+    return getHardMove(llm, grid, aiPlayer, rules);
+  }
+};
+
+// --- FORCED WINS: VCF / VCT ---
+// A smaller budget than the analysis button, since it runs before every move
+const AI_SOLVER_OPTIONS: SolverOptions = {
+  vcfDepth: 10,
+  vctDepth: 3,
+  maxNodes: 20000,
+  timeLimitMs: 400,
+};
+
+const getForcedMove = (grid: Player[][], aiPlayer: Player, rules: GameRules): Coordinates | null => {
+  const win = findForcedWin(grid, aiPlayer, rules, AI_SOLVER_OPTIONS);
+  if (win) return { row: win.line[0].row, col: win.line[0].col };
+  return findForcedWinDefence(grid, aiPlayer, rules, AI_SOLVER_OPTIONS);
+};
+
+// --- OPENING: Swap / Swap2 / Soosõrv decisions ---
+// Returns one action for the current opening step; the caller applies it and
+// asks again while the step needs more (e.g. several stones to place).
+// Positions are judged with the same line heuristic as Medium.
+
+// Below this margin a position counts as balanced
+const BALANCED_MARGIN = 300;
+
+export const getOpeningAction = async (
+  llm: LLMSettings,
+  state: BoardState,
+  difficulty: Difficulty,
+  engineOptions: EngineOptions = DEFAULT_ENGINE_OPTIONS,
+  onProgress?: (progress: SearchResult) => void
+): Promise<OpeningAction> => {
+  const { grid, rule, winLength, opening } = state;
+  const rules = getRules(rule, winLength);
+  const step = opening!.steps[0];
+
+  switch (step.type) {
+    case 'place': {
+      const color = nextStoneColor(grid);
+      if (grid.every(row => row.every(cell => cell === Player.None))) {
+        const center = Math.floor(grid.length / 2);
+        return { type: 'place', move: { row: center, col: center } };
+      }
+      const { row, col } = await getBestMove(llm, grid, color, difficulty, rule, winLength, engineOptions, onProgress);
+      return { type: 'place', move: { row, col } };
+    }
+    case 'offer': {
+      // Offer Black's strongest fifth moves that are not on offer yet
+      const taken = opening!.candidates;
+      const move = rankMoves(grid, Player.Black, rules)
+        .find(m => !taken.some(t => t.row === m.row && t.col === m.col));
+      return { type: 'place', move: move ?? getRandomMove(grid, Player.Black, rules) };
+    }
+    case 'choose': {
+      const balance = evaluateBalance(grid, rules, nextStoneColor(grid));
+      if (step.options.includes('place-two') && Math.abs(balance) < BALANCED_MARGIN) {
+        return { type: 'choose', choice: 'place-two' };
+      }
+      return { type: 'choose', choice: balance >= 0 ? 'black' : 'white' };
+    }
+    case 'declare': {
+      // The stronger Black stands, the more fifth moves it has to offer to stay fair
+      const balance = evaluateBalance(grid, rules, Player.White);
+      const count = 2 + Math.floor(balance / BALANCED_MARGIN);
+      return { type: 'declare', count: Math.max(1, Math.min(MAX_FIFTH_MOVES, count)) };
+    }
+    case 'select': {
+      // Keep the fifth move that leaves Black weakest
+      let best = opening!.candidates[0];
+      let bestBalance = Infinity;
+      for (const candidate of opening!.candidates) {
+        const next = grid.map(row => [...row]);
+        next[candidate.row][candidate.col] = Player.Black;
+        const balance = evaluateBalance(next, rules, Player.White);
+        if (balance < bestBalance) {
+          bestBalance = balance;
+          best = candidate;
+        }
+      }
+      return { type: 'select', move: best };
+    }
   }
 };
 
-// --- HARD: Gemini LLM ---
+// Rough assessment of who stands better, positive favours Black
+export const evaluateBalance = (grid: Player[][], rules: GameRules, toMove: Player): number => {
+  const strongestPoint = (player: Player): number => {
+    let best = 0;
+    for (let r = 0; r < grid.length; r++) {
+      for (let c = 0; c < grid.length; c++) {
+        if (!hasNeighbor(grid, r, c) || !isLegalFor(rules, grid, r, c, player)) continue;
+        let score = 0;
+        for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+          score += getLineScore(grid, r, c, dr, dc, player, rules.winLength);
+        }
+        best = Math.max(best, score);
+      }
+    }
+    return best;
+  };
+
+  // The side to move gets to use its best point first
+  const tempo = 1.5;
+  const black = strongestPoint(Player.Black);
+  const white = strongestPoint(Player.White);
+  return toMove === Player.Black ? black * tempo - white : black - white * tempo;
+};
+
+// --- HARD: LLM ---
+// Replies the LLM gets for one move; each rejected move is sent back with the reason
+const LLM_MAX_ATTEMPTS = 3;
+
 const getHardMove = async (
-  apiKey: string,
+  llm: LLMSettings,
   grid: Player[][],
-  aiPlayer: Player
-): Promise<Coordinates> => {
+  aiPlayer: Player,
+  rules: GameRules
+): Promise<AIMove> => {
+  const fallback = (reason: string): AIMove => ({ ...getMediumMove(grid, aiPlayer, rules), source: { engine: 'heuristic', fallback: reason } });
+
   // If no API Key provided, fallback to Medium logic
-  if (!apiKey) {
+  if (!llmReady(llm)) {
     console.warn("No API Key provided for Hard mode, falling back to Medium heuristic");
-    return getMediumMove(grid, aiPlayer);
+    return fallback('no API key');
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const prompt = `
-    You are a Gomoku (Five-in-a-Row) expert. 
-    The board size is ${BOARD_SIZE}x${BOARD_SIZE}.
-    
+  const size = grid.length;
+  const provider = createLLMProvider(llm);
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: `
+    You are a Gomoku (Five-in-a-Row) expert.
+    The board size is ${size}x${size}.
+    The game uses ${rules.description}
+
+    Objective:
+    1. Check if you can win immediately. If so, take that spot.
+    2. Check if the opponent will win on their next turn. If so, block them.
+    3. Otherwise, play the most strategic move to build a line of ${rules.winLength}.
+
+    Return ONLY the coordinates of your next move as JSON: {"row": <number>, "col": <number>}
+    Rows and Columns are 0-indexed (0 to ${size - 1}).
+  `,
+    },
+    {
+      role: 'user',
+      content: `
     Current board state:
     . = Empty
     X = Black (Player 1)
     O = White (Player 2)
-    
+
     ${boardToString(grid)}
-    
+
     You are playing as ${aiPlayer === Player.Black ? "Black (X)" : "White (O)"}.
     The opponent is ${aiPlayer === Player.Black ? "White (O)" : "Black (X)"}.
-    
-    Objective:
-    1. Check if you can win immediately. If so, take that spot.
-    2. Check if the opponent will win on their next turn. If so, block them.
-    3. Otherwise, play the most strategic move to build a line of 5.
-    
-    Return ONLY the coordinates of your next move.
-    Rows and Columns are 0-indexed (0 to ${BOARD_SIZE - 1}).
-  `;
+  `,
+    },
+  ];
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            row: { type: Type.INTEGER },
-            col: { type: Type.INTEGER }
-          },
-          required: ["row", "col"]
-        }
-      }
-    });
-
-    const result = JSON.parse(response.text || "{}");
-    
-    if (result && typeof result.row === 'number' && typeof result.col === 'number') {
-      // Validate move
-      if (
-        result.row >= 0 && result.row < BOARD_SIZE &&
-        result.col >= 0 && result.col < BOARD_SIZE &&
-        grid[result.row][result.col] === Player.None
-      ) {
-        return { row: result.row, col: result.col };
-      }
+    for (let attempt = 1; attempt <= LLM_MAX_ATTEMPTS; attempt++) {
+      const reply = await provider.complete(messages);
+      const move = parseMoveReply(reply);
+      const problem = move ? moveProblem(grid, move, aiPlayer, rules) : 'the reply did not contain {"row": <number>, "col": <number>}';
+      if (!problem) return { ...move!, source: { engine: 'llm', model: provider.label, attempts: attempt } };
+
+      // Tell the model why, so the next reply can do better
+      messages.push(
+        { role: 'assistant', content: reply },
+        { role: 'user', content: `That move was rejected: ${problem}. Choose another empty point and reply with the JSON only.` }
+      );
     }
-    
-    console.error("Gemini returned invalid move, falling back to Medium.");
-    return getMediumMove(grid, aiPlayer);
+    console.error(`${provider.label} gave no legal move, falling back to Medium.`);
+    return fallback(`no legal move in ${LLM_MAX_ATTEMPTS} replies`);
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return getMediumMove(grid, aiPlayer);
+    console.error("LLM API Error:", error);
+    return fallback(error instanceof Error ? error.message : String(error));
   }
 };
 
+// The first {"row": .., "col": ..} object in the reply; models often wrap it in text
+const parseMoveReply = (reply: string): Coordinates | null => {
+  const json = reply.match(/\{[^{}]*\}/);
+  if (!json) return null;
+  try {
+    const { row, col } = JSON.parse(json[0]);
+    return Number.isInteger(row) && Number.isInteger(col) ? { row, col } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Why the move cannot be played, or null if it can
+const moveProblem = (grid: Player[][], { row, col }: Coordinates, player: Player, rules: GameRules): string | null => {
+  const size = grid.length;
+  if (row < 0 || col < 0 || row >= size || col >= size) return `row ${row}, col ${col} is off the ${size}x${size} board`;
+  if (grid[row][col] !== Player.None) return `row ${row}, col ${col} is already taken`;
+  if (!isLegalFor(rules, grid, row, col, player)) return `row ${row}, col ${col} is a forbidden point for you under these rules`;
+  return null;
+};
+
 // --- MEDIUM: Heuristic ---
-const getMediumMove = (grid: Player[][], aiPlayer: Player): Coordinates => {
+const getMediumMove = (grid: Player[][], aiPlayer: Player, rules: GameRules): Coordinates => {
   const opponent = aiPlayer === Player.Black ? Player.White : Player.Black;
   let bestScore = -Infinity;
   let bestMove: Coordinates | null = null;
 
   // Evaluate every empty cell
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
-      if (grid[r][c] === Player.None) {
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid.length; c++) {
+      if (isLegalFor(rules, grid, r, c, aiPlayer)) {
         // Calculate score for this position
         // Higher score = better move
-        const score = evaluatePosition(grid, r, c, aiPlayer, opponent);
+        const score = evaluatePosition(grid, r, c, aiPlayer, opponent, rules);
         
         // Add a tiny random factor to break ties and make it feel less robotic
         const randomFactor = Math.random() * 5; 
@@ -129,32 +316,64 @@ const getMediumMove = (grid: Player[][], aiPlayer: Player): Coordinates => {
     }
   }
 
-  return bestMove || getRandomMove(grid);
+  return bestMove || getRandomMove(grid, aiPlayer, rules);
 };
 
+// All legal moves for `player` with their Medium heuristic scores, best first
+export const scoreMoves = (grid: Player[][], player: Player, rules: GameRules): { move: Coordinates, score: number }[] => {
+  const opponent = player === Player.Black ? Player.White : Player.Black;
+  const scored: { move: Coordinates, score: number }[] = [];
+
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid.length; c++) {
+      if (isLegalFor(rules, grid, r, c, player)) {
+        scored.push({ move: { row: r, col: c }, score: evaluatePosition(grid, r, c, player, opponent, rules) });
+      }
+    }
+  }
+
+  return scored.sort((a, b) => b.score - a.score);
+};
+
+const rankMoves = (grid: Player[][], player: Player, rules: GameRules): Coordinates[] =>
+  scoreMoves(grid, player, rules).map(s => s.move);
+
 // Evaluate how good a specific spot (r,c) is for the AI
-const evaluatePosition = (grid: Player[][], r: number, c: number, me: Player, opp: Player): number => {
+const evaluatePosition = (grid: Player[][], r: number, c: number, me: Player, opp: Player, rules: GameRules): number => {
   let score = 0;
+  // No need to block a point the opponent is not allowed to play
+  const oppCanPlay = isLegalFor(rules, grid, r, c, opp);
+
+  // Line counting below is rule-agnostic, so ask the rules directly whether
+  // this point completes a win for either side (overlines, blocked fives, ...)
+  grid[r][c] = me;
+  const winsHere = rules.checkWin(grid, r, c, me) !== null;
+  grid[r][c] = opp;
+  const oppWinsHere = oppCanPlay && rules.checkWin(grid, r, c, opp) !== null;
+  grid[r][c] = Player.None;
+  if (winsHere) score += 1000000;
+  if (oppWinsHere) score += 500000;
 
   // Directions: Horizontal, Vertical, Diagonal \, Diagonal /
   const directions = [[0, 1], [1, 0], [1, 1], [1, -1]];
 
   for (const [dr, dc] of directions) {
     // Check offense (My potential lines)
-    score += getLineScore(grid, r, c, dr, dc, me);
+    score += getLineScore(grid, r, c, dr, dc, me, rules.winLength);
     // Check defense (Blocking opponent lines) - Slightly higher weight on defense usually prevents losing
-    score += getLineScore(grid, r, c, dr, dc, opp) * 1.1; 
+    if (oppCanPlay) score += getLineScore(grid, r, c, dr, dc, opp, rules.winLength) * 1.1;
   }
 
   // Bonus for being near center
-  const center = Math.floor(BOARD_SIZE / 2);
+  const center = Math.floor(grid.length / 2);
   const dist = Math.abs(r - center) + Math.abs(c - center);
   score -= dist; // Slight penalty for being far from center
 
   return score;
 };
 
-const getLineScore = (grid: Player[][], r: number, c: number, dr: number, dc: number, player: Player): number => {
+const getLineScore = (grid: Player[][], r: number, c: number, dr: number, dc: number, player: Player, winLength: number): number => {
+  const size = grid.length;
   let count = 0;
   let openEnds = 0;
 
@@ -163,7 +382,7 @@ const getLineScore = (grid: Player[][], r: number, c: number, dr: number, dc: nu
   while (true) {
     const nr = r + dr * i;
     const nc = c + dc * i;
-    if (nr < 0 || nr >= BOARD_SIZE || nc < 0 || nc >= BOARD_SIZE) break;
+    if (nr < 0 || nr >= size || nc < 0 || nc >= size) break;
     if (grid[nr][nc] === player) {
       count++;
     } else if (grid[nr][nc] === Player.None) {
@@ -180,7 +399,7 @@ const getLineScore = (grid: Player[][], r: number, c: number, dr: number, dc: nu
   while (true) {
     const nr = r - dr * i;
     const nc = c - dc * i;
-    if (nr < 0 || nr >= BOARD_SIZE || nc < 0 || nc >= BOARD_SIZE) break;
+    if (nr < 0 || nr >= size || nc < 0 || nc >= size) break;
     if (grid[nr][nc] === player) {
       count++;
     } else if (grid[nr][nc] === Player.None) {
@@ -192,23 +411,26 @@ const getLineScore = (grid: Player[][], r: number, c: number, dr: number, dc: nu
     i++;
   }
 
-  // Scoring weights
-  if (count >= 4) return 100000; // 5 in a row (winning or blocking win)
-  if (count === 3 && openEnds > 0) return 5000; // 4 in a row (setting up win)
-  if (count === 2 && openEnds === 2) return 1000; // Open 3
-  if (count === 2 && openEnds > 0) return 100;
-  if (count === 1 && openEnds === 2) return 50;
+  // Scoring weights, by how many stones the line would still be short of a win
+  // (for the default win length of 5: five, four, open three, three, open two)
+  const missing = winLength - 1 - count;
+  if (missing <= 0) return 100000; // Completes the line (winning or blocking win)
+  if (count === 0) return 10;
+  if (missing === 1 && openEnds > 0) return 5000; // One short (setting up win)
+  if (missing === 2 && openEnds === 2) return 1000; // Open, two short
+  if (missing === 2 && openEnds > 0) return 100;
+  if (missing === 3 && openEnds === 2) return 50;
 
   return 10; // Basic connection
 };
 
 
 // --- EASY: Random ---
-const getRandomMove = (grid: Player[][]): Coordinates => {
+const getRandomMove = (grid: Player[][], aiPlayer: Player, rules: GameRules): Coordinates => {
   const availableMoves: Coordinates[] = [];
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
-      if (grid[r][c] === Player.None) {
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid.length; c++) {
+      if (isLegalFor(rules, grid, r, c, aiPlayer)) {
         availableMoves.push({ row: r, col: c });
       }
     }
@@ -233,7 +455,7 @@ const hasNeighbor = (grid: Player[][], r: number, c: number): boolean => {
       if (dr === 0 && dc === 0) continue;
       const nr = r + dr;
       const nc = c + dc;
-      if (nr >= 0 && nr < BOARD_SIZE && nc >= 0 && nc < BOARD_SIZE && grid[nr][nc] !== Player.None) {
+      if (nr >= 0 && nr < grid.length && nc >= 0 && nc < grid.length && grid[nr][nc] !== Player.None) {
         return true;
       }
     }
@@ -0,0 +1,55 @@
+import { Coordinates, Player, RuleVariant } from '../types';
+import { DEFAULT_BRIDGE_PORT, boardCommand, parsePoint, ruleCode } from './gomocupProtocol';
+
+// Asks an outside Gomocup engine for one move. Every question opens its own
+// connection to the bridge, which starts a fresh engine process and sends it
+// the whole position, so nothing has to be kept in step between moves. Runs
+// in the AI worker: when the task is cancelled the worker, and with it the
+// connection and the engine, goes away.
+
+export const DEFAULT_BRIDGE_URL = `ws://localhost:${DEFAULT_BRIDGE_PORT}`;
+
+export const getEngineMove = (
+  url: string,
+  grid: Player[][],
+  player: Player,
+  rule: RuleVariant,
+  timeLimitMs: number
+): Promise<Coordinates> => new Promise((resolve, reject) => {
+  const socket = new WebSocket(url);
+  let started = false;
+  let settled = false;
+
+  const finish = (error: Error | null, move?: Coordinates) => {
+    if (settled) return;
+    settled = true;
+    if (socket.readyState === WebSocket.OPEN) socket.send('END');
+    socket.close();
+    if (error) reject(error);
+    else resolve(move!);
+  };
+  const send = (lines: string[]) => lines.forEach(line => socket.send(line));
+
+  socket.onopen = () => send([`START ${grid.length}`]);
+  socket.onmessage = ({ data }) => {
+    const line = String(data).trim();
+    if (/^(ERROR|UNKNOWN)\b/.test(line)) return finish(new Error(`Engine: ${line}`));
+    if (!started) {
+      if (line !== 'OK') return;
+      started = true;
+      const empty = grid.every(cells => cells.every(cell => cell === Player.None));
+      send([
+        `INFO timeout_turn ${timeLimitMs}`,
+        'INFO timeout_match 0',
+        `INFO rule ${ruleCode(rule)}`,
+        ...(empty ? ['BEGIN'] : boardCommand(grid, player)),
+      ]);
+      return;
+    }
+    // Anything else (MESSAGE, DEBUG) is for people watching the engine
+    const move = parsePoint(line);
+    if (move) finish(null, move);
+  };
+  socket.onerror = () => finish(new Error(`Cannot reach the engine bridge at ${url}`));
+  socket.onclose = () => finish(new Error('The engine bridge closed the connection'));
+});
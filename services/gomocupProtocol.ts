@@ -0,0 +1,54 @@
+import { Coordinates, Player, RuleVariant } from '../types';
+
+// The Gomocup (Piskvork) engine protocol: plain text lines. The manager sends
+// START, INFO, BEGIN, TURN, BOARD ... DONE, TAKEBACK and END; the engine
+// answers OK, ERROR or a move "x,y", and may print MESSAGE and DEBUG lines for
+// people. x is the column and y the row, both counted from 0 at the top left.
+//
+// The app talks to outside engines through server/engineBridge.ts, one line
+// per WebSocket message; server/gomocupEngine.ts answers as an engine itself.
+
+export const DEFAULT_BRIDGE_PORT = 8788;
+
+// INFO rule: bit 0 exactly five, bit 2 renju, bit 3 caro. Omok has no code of
+// its own; engines play it as exact five and the app checks the double-three.
+const RULE_CODES: Record<RuleVariant, number> = {
+  [RuleVariant.Freestyle]: 0,
+  [RuleVariant.Standard]: 1,
+  [RuleVariant.Renju]: 4,
+  [RuleVariant.Caro]: 8,
+  [RuleVariant.Omok]: 1,
+};
+
+export const ruleCode = (rule: RuleVariant): number => RULE_CODES[rule];
+
+export const ruleFromCode = (code: number): RuleVariant => {
+  if (code & 4) return RuleVariant.Renju;
+  if (code & 8) return RuleVariant.Caro;
+  if (code & 1) return RuleVariant.Standard;
+  return RuleVariant.Freestyle;
+};
+
+export const formatPoint = ({ row, col }: Coordinates): string => `${col},${row}`;
+
+export const parsePoint = (text: string): Coordinates | null => {
+  const match = /^\s*(\d+)\s*,\s*(\d+)\s*$/.exec(text);
+  return match ? { row: Number(match[2]), col: Number(match[1]) } : null;
+};
+
+// A BOARD line: the point, then 1 for the engine's own stone, 2 for the opponent's
+export const parseBoardLine = (text: string): { point: Coordinates; own: boolean } | null => {
+  const match = /^\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d)\s*$/.exec(text);
+  return match ? { point: { row: Number(match[2]), col: Number(match[1]) }, own: match[3] === '1' } : null;
+};
+
+// The position for the engine playing `player`. The grid does not keep the
+// move order, so the stones are listed row by row.
+export const boardCommand = (grid: Player[][], player: Player): string[] => {
+  const lines = ['BOARD'];
+  grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell !== Player.None) lines.push(`${formatPoint({ row, col })},${cell === player ? 1 : 2}`);
+  }));
+  lines.push('DONE');
+  return lines;
+};
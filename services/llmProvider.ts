@@ -0,0 +1,122 @@
+import { GoogleGenAI } from "@google/genai";
+
+// Language models the Hard level can ask for a move. Each provider turns a
+// chat into one reply; what to ask and how to read the answer is up to the
+// caller (see getHardMove). Runs in the AI worker and in the Node scripts,
+// so only fetch and the Gemini SDK are used here.
+
+export type LLMProviderId = 'gemini' | 'openai';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;       // Empty for the provider's default
+  baseUrl: string;     // OpenAI-compatible endpoints only; empty for the default
+  apiKey: string;      // Optional for local servers
+  temperature: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProvider {
+  label: string;       // Provider and model, for showing who played a move
+  complete: (messages: LLMMessage[]) => Promise<string>;
+}
+
+export const LLM_PROVIDERS: LLMProviderId[] = ['gemini', 'openai'];
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+};
+
+export const DEFAULT_LLM_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: '',
+  apiKey: '',
+  temperature: 0.2,
+};
+
+export const llmModel = (settings: LLMSettings): string => settings.model.trim() || DEFAULT_LLM_MODELS[settings.provider];
+
+// Gemini cannot be reached without a key; local servers usually need none
+export const llmReady = (settings: LLMSettings): boolean => settings.provider !== 'gemini' || !!settings.apiKey;
+
+export const describeLLM = (settings: LLMSettings): string => `${LLM_PROVIDER_LABELS[settings.provider]} · ${llmModel(settings)}`;
+
+const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  return {
+    label: describeLLM(settings),
+    complete: async (messages) => {
+      const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n');
+      const response = await ai.models.generateContent({
+        model: llmModel(settings),
+        contents: messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role === 'assistant' ? 'model' : 'user', parts: [{ text: message.content }] })),
+        config: {
+          systemInstruction: system || undefined,
+          temperature: settings.temperature,
+          responseMimeType: "application/json",
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, a local
+// model server (Ollama, llama.cpp, LM Studio, vLLM) or a mock
+const createOpenAIProvider = (settings: LLMSettings): LLMProvider => {
+  const url = `${(settings.baseUrl.trim() || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+  return {
+    label: describeLLM(settings),
+    complete: async (messages) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: llmModel(settings), temperature: settings.temperature, messages }),
+      });
+      if (!response.ok) {
+        throw new Error(`LLM endpoint answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('LLM endpoint sent no message content');
+      return content;
+    },
+  };
+};
+
+export const createLLMProvider = (settings: LLMSettings): LLMProvider =>
+  settings.provider === 'openai' ? createOpenAIProvider(settings) : createGeminiProvider(settings);
+
+const SETTINGS_KEY = 'llm_settings';
+// Before there were several providers only a Gemini key was kept
+const LEGACY_KEY = 'gemini_api_key';
+
+export const getLLMSettings = (): LLMSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Ignoring invalid LLM settings", e);
+  }
+  return { ...DEFAULT_LLM_SETTINGS, apiKey: localStorage.getItem(LEGACY_KEY) ?? '' };
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
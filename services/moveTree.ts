@@ -0,0 +1,62 @@
+import { Move } from '../types';
+
+// Game record as a tree: the main line plus any variations tried during
+// review. Nodes live in a flat array and refer to each other by index; the
+// tree is never mutated, every change returns a new one.
+
+export interface MoveNode {
+  move: Move | null;   // null only for the root, the position before any move
+  parent: number | null;
+  children: number[];  // The first child is the main continuation
+}
+
+export interface MoveTree {
+  nodes: MoveNode[];
+}
+
+export const ROOT = 0;
+
+export const createMoveTree = (): MoveTree => ({
+  nodes: [{ move: null, parent: null, children: [] }],
+});
+
+// Play `move` after `parent`, reusing the child if that move was tried before
+export const addMove = (tree: MoveTree, parent: number, move: Move): { tree: MoveTree; node: number } => {
+  const existing = tree.nodes[parent].children.find(id => {
+    const child = tree.nodes[id].move!;
+    return child.row === move.row && child.col === move.col;
+  });
+  if (existing !== undefined) return { tree, node: existing };
+
+  const node = tree.nodes.length;
+  const nodes = [...tree.nodes, { move, parent, children: [] }];
+  nodes[parent] = { ...nodes[parent], children: [...nodes[parent].children, node] };
+  return { tree: { nodes }, node };
+};
+
+// Add a whole game from the root; returns the node of its last move
+export const addLine = (tree: MoveTree, moves: Move[]): { tree: MoveTree; node: number } => {
+  let result = { tree, node: ROOT };
+  for (const move of moves) result = addMove(result.tree, result.node, move);
+  return result;
+};
+
+// Node ids from the root (excluded) down to `node`
+export const pathTo = (tree: MoveTree, node: number): number[] => {
+  const path: number[] = [];
+  for (let id: number | null = node; id !== null && id !== ROOT; id = tree.nodes[id].parent) path.push(id);
+  return path.reverse();
+};
+
+export const movesTo = (tree: MoveTree, node: number): Move[] =>
+  pathTo(tree, node).map(id => tree.nodes[id].move!);
+
+// The line through `node`: its path from the root, then main continuations to the end
+export const lineThrough = (tree: MoveTree, node: number): number[] => {
+  const line = pathTo(tree, node);
+  for (let id = node; tree.nodes[id].children.length > 0; ) {
+    id = tree.nodes[id].children[0];
+    line.push(id);
+  }
+  return line;
+};
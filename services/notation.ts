@@ -0,0 +1,481 @@
+import { BOARD_SIZE, BOARD_SIZE_OPTIONS } from '../constants';
+import { BoardState, GameResult, Move, Player, RuleVariant } from '../types';
+import { formatCoordinates } from './gameLogic';
+import { MoveTree, ROOT, addLine, addMove, createMoveTree } from './moveTree';
+import { hasSetupStones } from './position';
+
+// Game records in the formats other Gomoku programs read and write:
+//
+//   text   a move list as players write it, "h8 i9 h9 ..." (rows from the bottom)
+//   psq    Piskvork: a "Piskvorky 20x20, ..." header, then "x,y,time" lines (1-based, rows from the top)
+//   sgf    Smart Game Format with GM[4]; variations become review lines
+//   rif    the XML database of the Renju International Federation, which may hold many games
+//
+// Text, PSQ and RIF moves alternate from Black; SGF names the colour of every move.
+// Text and RIF points count rows from the bottom of the board without naming its
+// size, which readers take to be 15x15, so they are written for no other size.
+// Set-up positions (see position.ts) keep their colours in SGF only.
+
+export type NotationFormat = 'text' | 'psq' | 'sgf' | 'rif';
+
+export const NOTATION_FORMATS: NotationFormat[] = ['text', 'psq', 'sgf', 'rif'];
+
+export const NOTATION_LABELS: Record<NotationFormat, string> = {
+  text: '文本',
+  psq: 'PSQ (Piskvork)',
+  sgf: 'SGF',
+  rif: 'RIF (Renlib)',
+};
+
+export const NOTATION_EXTENSIONS: Record<NotationFormat, string> = {
+  text: 'txt',
+  psq: 'psq',
+  sgf: 'sgf',
+  rif: 'rif',
+};
+
+// Why a game cannot be written in a format
+export type ExportProblem = 'size' | 'setup';
+
+export const EXPORT_PROBLEM_MESSAGES: Record<ExportProblem, string> = {
+  'size': '文本和 RIF 棋谱只能记录 15 路棋盘的对局。',
+  'setup': '这局从摆好的局面开始，只有 SGF 能记下每颗棋子的颜色。',
+};
+
+export interface ImportedGame {
+  title: string;             // Players or event, for picking one game out of a database
+  boardSize: number;
+  rule: RuleVariant;
+  tree: MoveTree;            // The game as played is the main line
+  players: { black: string; white: string };
+  result: GameResult | null; // As recorded; a win without the five on the board counts as a resignation
+}
+
+// Who played, and the game tree to write out (the plain history when there is no review)
+export interface ExportInfo {
+  players: { black: string; white: string };
+  tree?: MoveTree;
+}
+
+const RULE_NAMES: Record<RuleVariant, string> = {
+  [RuleVariant.Freestyle]: 'Freestyle',
+  [RuleVariant.Standard]: 'Standard',
+  [RuleVariant.Renju]: 'Renju',
+  [RuleVariant.Caro]: 'Caro',
+  [RuleVariant.Omok]: 'Omok',
+};
+
+// Rule names vary between programs; renju opening rules all play under renju restrictions
+const ruleFromName = (name: string, fallback: RuleVariant): RuleVariant => {
+  const lower = name.toLowerCase();
+  if (/renju|yamaguchi|tarannikov|soosorv|taraguchi|sakata/.test(lower)) return RuleVariant.Renju;
+  if (/caro/.test(lower)) return RuleVariant.Caro;
+  if (/omok/.test(lower)) return RuleVariant.Omok;
+  if (/standard|exact|gomoku/.test(lower)) return RuleVariant.Standard;
+  if (/free/.test(lower)) return RuleVariant.Freestyle;
+  return fallback;
+};
+
+const checkSize = (size: number): number => {
+  if (!BOARD_SIZE_OPTIONS.includes(size)) throw new Error(`Unsupported board size ${size}`);
+  return size;
+};
+
+// Colours alternate from Black; no point may be played twice
+const alternating = (points: { row: number; col: number }[], size: number): Move[] => {
+  const seen = new Set<number>();
+  return points.map(({ row, col }, i) => {
+    if (row < 0 || col < 0 || row >= size || col >= size || seen.has(row * size + col)) {
+      throw new Error(`Invalid move ${i + 1}`);
+    }
+    seen.add(row * size + col);
+    return { row, col, player: i % 2 === 0 ? Player.Black : Player.White };
+  });
+};
+
+const lineTree = (moves: Move[]): MoveTree => addLine(createMoveTree(), moves).tree;
+
+const mainLine = (tree: MoveTree): Move[] => {
+  const moves: Move[] = [];
+  for (let id = ROOT; tree.nodes[id].children.length > 0; ) {
+    id = tree.nodes[id].children[0];
+    moves.push(tree.nodes[id].move!);
+  }
+  return moves;
+};
+
+export const importedMoves = (game: ImportedGame): Move[] => mainLine(game.tree);
+
+const winResult = (winner: Player | null, reason?: GameResult['reason']): GameResult =>
+  ({ winner, reason: reason ?? (winner === null ? 'agreement' : 'resignation') });
+
+// --- Text move lists ---
+
+const TEXT_POINT = /^([a-z])(\d{1,2})$/i;
+
+const parseText = (text: string): ImportedGame => {
+  // Move numbers ("1." or "1)") and separators are skipped
+  const tokens = text.split(/[\s,;]+/).filter(token => token && !/^\d+[.)]?$/.test(token));
+  const points = tokens.map(token => {
+    const match = TEXT_POINT.exec(token);
+    if (!match) throw new Error(`Not a move: ${token}`);
+    return { col: match[1].toLowerCase().charCodeAt(0) - 97, number: Number(match[2]) };
+  });
+  if (points.length === 0) throw new Error('No moves found');
+
+  // Rows count from the bottom, so the board size has to be known first: the
+  // usual 15x15 unless a move lies beyond it
+  const needed = Math.max(...points.map(p => Math.max(p.col + 1, p.number)));
+  const boardSize = needed <= BOARD_SIZE ? BOARD_SIZE : BOARD_SIZE_OPTIONS.find(size => size >= needed);
+  if (!boardSize) throw new Error('Moves lie outside every board size');
+
+  const moves = alternating(points.map(p => ({ row: boardSize - p.number, col: p.col })), boardSize);
+  return {
+    title: `${moves.length} 手`,
+    boardSize,
+    rule: RuleVariant.Freestyle,
+    tree: lineTree(moves),
+    players: { black: '', white: '' },
+    result: null,
+  };
+};
+
+export const writeText = (board: BoardState): string => {
+  if (hasSetupStones(board)) throw new Error('Set-up positions cannot be written as a move list');
+  if (board.boardSize !== BOARD_SIZE) throw new Error(`Move lists are ${BOARD_SIZE}x${BOARD_SIZE} only`);
+  return board.history.map(move => formatCoordinates(move, board.boardSize).toLowerCase()).join(' ');
+};
+
+// --- Piskvork PSQ ---
+
+const parsePSQ = (text: string): ImportedGame => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const header = /^Piskvorky\s+(\d+)x(\d+)/i.exec(lines[0]);
+  if (!header) throw new Error('Missing Piskvorky header');
+  if (header[1] !== header[2]) throw new Error('Only square boards are supported');
+  const boardSize = checkSize(Number(header[1]));
+
+  // Moves run until the first line that is not one ("-1" or the engine names)
+  const points: { row: number; col: number }[] = [];
+  for (const line of lines.slice(1)) {
+    const match = /^(\d+),(\d+)(?:,\d+)?$/.exec(line);
+    if (!match) break;
+    points.push({ col: Number(match[1]) - 1, row: Number(match[2]) - 1 });
+  }
+  const moves = alternating(points, boardSize);
+  return {
+    title: `${boardSize}路 · ${moves.length} 手`,
+    boardSize,
+    rule: RuleVariant.Freestyle,
+    tree: lineTree(moves),
+    players: { black: '', white: '' },
+    result: null,
+  };
+};
+
+export const writePSQ = (board: BoardState): string => {
+  if (hasSetupStones(board)) throw new Error('Set-up positions cannot be written as PSQ');
+  const size = board.boardSize;
+  return [
+    `Piskvorky ${size}x${size}, 11:11, 0`,
+    ...board.history.map(move => `${move.col + 1},${move.row + 1},0`),
+    '-1',
+    '',
+  ].join('\n');
+};
+
+// --- SGF ---
+
+interface SgfNode {
+  properties: Record<string, string[]>;
+}
+
+interface SgfTree {
+  nodes: SgfNode[];
+  variations: SgfTree[];
+}
+
+// GameTree = "(" Node+ GameTree* ")", Node = ";" (Ident ("[" Value "]")+)*
+const parseSgfTrees = (text: string): SgfTree[] => {
+  let i = 0;
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const value = (): string => {
+    let result = '';
+    i++; // '['
+    while (i < text.length && text[i] !== ']') {
+      if (text[i] === '\\') i++;
+      result += text[i++] ?? '';
+    }
+    if (i >= text.length) throw new Error('Unterminated SGF value');
+    i++; // ']'
+    return result;
+  };
+  const node = (): SgfNode => {
+    const properties: Record<string, string[]> = {};
+    i++; // ';'
+    skipSpace();
+    while (i < text.length && /[A-Za-z]/.test(text[i])) {
+      let ident = '';
+      while (i < text.length && /[A-Za-z]/.test(text[i])) ident += text[i++];
+      skipSpace();
+      const values: string[] = [];
+      while (text[i] === '[') {
+        values.push(value());
+        skipSpace();
+      }
+      // Old files use lower-case letters inside identifiers ("GaMe")
+      properties[ident.replace(/[a-z]/g, '')] = values;
+    }
+    return { properties };
+  };
+  const gameTree = (): SgfTree => {
+    i++; // '('
+    const tree: SgfTree = { nodes: [], variations: [] };
+    skipSpace();
+    while (text[i] === ';') {
+      tree.nodes.push(node());
+      skipSpace();
+    }
+    while (text[i] === '(') {
+      tree.variations.push(gameTree());
+      skipSpace();
+    }
+    if (tree.nodes.length === 0 || text[i] !== ')') throw new Error('Malformed SGF');
+    i++;
+    return tree;
+  };
+
+  const trees: SgfTree[] = [];
+  skipSpace();
+  while (text[i] === '(') {
+    trees.push(gameTree());
+    skipSpace();
+  }
+  if (trees.length === 0) throw new Error('No SGF game found');
+  return trees;
+};
+
+const sgfPoint = (value: string, size: number): { row: number; col: number } | null => {
+  // An empty value (or "tt" on small boards) is a pass
+  if (value === '' || (value === 'tt' && size <= 19)) return null;
+  const col = value.charCodeAt(0) - 97;
+  const row = value.charCodeAt(1) - 97;
+  if (!(col >= 0 && row >= 0 && col < size && row < size)) throw new Error(`Invalid SGF point ${value}`);
+  return { row, col };
+};
+
+const sgfPointText = ({ row, col }: { row: number; col: number }): string =>
+  String.fromCharCode(97 + col) + String.fromCharCode(97 + row);
+
+const parseSgfResult = (value: string | undefined): GameResult | null => {
+  if (!value) return null;
+  if (/^(0|draw|jigo)$/i.test(value)) return winResult(null);
+  const match = /^([BW])\+(.*)$/i.exec(value);
+  if (!match) return null;
+  const winner = match[1].toUpperCase() === 'B' ? Player.Black : Player.White;
+  const reason = /^(T|time)/i.test(match[2]) ? 'timeout' : undefined;
+  return winResult(winner, reason);
+};
+
+const sgfGame = (sgf: SgfTree): ImportedGame => {
+  const root = sgf.nodes[0].properties;
+  const prop = (name: string) => root[name]?.[0]?.trim();
+  if (prop('GM') && prop('GM') !== '4') throw new Error('Not a Gomoku SGF game');
+  const boardSize = checkSize(Number(prop('SZ')?.split(':')[0] ?? BOARD_SIZE));
+
+  let tree = createMoveTree();
+  const walk = (branch: SgfTree, parent: number, from: number) => {
+    let node = parent;
+    for (const { properties } of branch.nodes.slice(from)) {
+      for (const [key, player] of [['B', Player.Black], ['W', Player.White]] as const) {
+        const values = properties[key];
+        if (!values) continue;
+        const point = sgfPoint(values[0] ?? '', boardSize);
+        if (!point) continue;
+        const added = addMove(tree, node, { ...point, player });
+        tree = added.tree;
+        node = added.node;
+      }
+    }
+    for (const variation of branch.variations) walk(variation, node, 0);
+  };
+  walk(sgf, ROOT, 0);
+
+  const black = prop('PB') ?? '';
+  const white = prop('PW') ?? '';
+  return {
+    title: prop('GN') || prop('EV') || (black || white ? `${black || '?'} - ${white || '?'}` : `${tree.nodes.length - 1} 手`),
+    boardSize,
+    rule: ruleFromName(prop('RU') ?? '', RuleVariant.Freestyle),
+    tree,
+    players: { black, white },
+    result: parseSgfResult(prop('RE')),
+  };
+};
+
+const sgfText = (text: string): string => text.replace(/[\]\\]/g, match => `\\${match}`);
+
+const sgfResult = (result: GameResult | null): string | null => {
+  if (!result) return null;
+  if (result.winner === null) return '0';
+  const suffix = result.reason === 'resignation' ? 'R' : result.reason === 'timeout' ? 'T' : '';
+  return `${result.winner === Player.Black ? 'B' : 'W'}+${suffix}`;
+};
+
+export const writeSGF = (board: BoardState, info: ExportInfo): string => {
+  const tree = info.tree ?? lineTree(board.history);
+  const properties: [string, string | null][] = [
+    ['GM', '4'],
+    ['FF', '4'],
+    ['CA', 'UTF-8'],
+    ['AP', 'Gomoku'],
+    ['SZ', String(board.boardSize)],
+    ['RU', RULE_NAMES[board.rule]],
+    ['PB', info.players.black || null],
+    ['PW', info.players.white || null],
+    ['RE', sgfResult(board.result)],
+  ];
+  const header = properties
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([key, value]) => `${key}[${sgfText(value)}]`)
+    .join('');
+
+  // Straight runs are written as sequences; a node with several children opens a bracket per child
+  const writeFrom = (id: number): string => {
+    let text = '';
+    let node = tree.nodes[id];
+    while (node.children.length === 1) {
+      const child = tree.nodes[node.children[0]];
+      text += `;${child.move!.player === Player.Black ? 'B' : 'W'}[${sgfPointText(child.move!)}]`;
+      node = child;
+    }
+    for (const child of node.children) {
+      const move = tree.nodes[child].move!;
+      text += `(;${move.player === Player.Black ? 'B' : 'W'}[${sgfPointText(move)}]${writeFrom(child)})`;
+    }
+    return text;
+  };
+
+  return `(;${header}${writeFrom(ROOT)})\n`;
+};
+
+// --- RIF / Renlib XML ---
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const xmlDecode = (text: string): string =>
+  text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) =>
+    entity[0] === '#'
+      ? String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)))
+      : XML_ENTITIES[entity.toLowerCase()]);
+
+const xmlEncode = (text: string): string =>
+  text.replace(/[&<>"']/g, char => `&${Object.keys(XML_ENTITIES).find(key => XML_ENTITIES[key] === char)};`);
+
+const attributes = (tag: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) result[match[1]] = xmlDecode(match[2]);
+  return result;
+};
+
+// Databases can be large, so this scans the tags it needs instead of building a document
+const parseRIF = (text: string): ImportedGame[] => {
+  const players = new Map<string, string>();
+  for (const match of text.matchAll(/<player\b([^>]*)>/g)) {
+    const { id, name = '', surname = '' } = attributes(match[1]);
+    players.set(id, `${name} ${surname}`.trim());
+  }
+  const rules = new Map<string, RuleVariant>();
+  for (const match of text.matchAll(/<rule\b([^>]*)>/g)) {
+    const { id, name = '' } = attributes(match[1]);
+    rules.set(id, ruleFromName(name, RuleVariant.Renju));
+  }
+
+  const games: ImportedGame[] = [];
+  for (const match of text.matchAll(/<game\b([^>]*)>([\s\S]*?)<\/game>/g)) {
+    const game = attributes(match[1]);
+    const moveText = /<move>([\s\S]*?)<\/move>/.exec(match[2])?.[1] ?? '';
+    const points = moveText.split(/\s+/).filter(Boolean).map(token => {
+      const point = TEXT_POINT.exec(token);
+      if (!point) throw new Error(`Not a move: ${token}`);
+      return { row: BOARD_SIZE - Number(point[2]), col: point[1].toLowerCase().charCodeAt(0) - 97 };
+    });
+    const black = players.get(game.black) ?? '';
+    const white = players.get(game.white) ?? '';
+    const result = game.bresult === '1' ? winResult(Player.Black)
+      : game.bresult === '0' ? winResult(Player.White)
+      : game.bresult === '0.5' ? winResult(null)
+      : null;
+    games.push({
+      title: black || white ? `${black || '?'} - ${white || '?'}` : `#${game.id ?? games.length + 1}`,
+      boardSize: BOARD_SIZE,
+      rule: rules.get(game.rule) ?? RuleVariant.Renju,
+      tree: lineTree(alternating(points, BOARD_SIZE)),
+      players: { black, white },
+      result,
+    });
+  }
+  if (games.length === 0) throw new Error('No games in the database');
+  return games;
+};
+
+export const writeRIF = (board: BoardState, info: ExportInfo): string => {
+  const result = board.result;
+  const bresult = !result ? null : result.winner === null ? '0.5' : result.winner === Player.Black ? '1' : '0';
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<database>',
+    '  <rules>',
+    `    <rule id="1" name="${xmlEncode(RULE_NAMES[board.rule])}" />`,
+    '  </rules>',
+    '  <players>',
+    `    <player id="1" name="${xmlEncode(info.players.black)}" surname="" />`,
+    `    <player id="2" name="${xmlEncode(info.players.white)}" surname="" />`,
+    '  </players>',
+    '  <games>',
+    `    <game id="1" rule="1" black="1" white="2"${bresult ? ` bresult="${bresult}"` : ''}>`,
+    `      <move>${writeText(board)}</move>`,
+    '    </game>',
+    '  </games>',
+    '</database>',
+    '',
+  ].join('\n');
+};
+
+// --- Dispatch ---
+
+export const detectFormat = (text: string): NotationFormat => {
+  const start = text.trimStart();
+  if (start.startsWith('(')) return 'sgf';
+  if (start.startsWith('<')) return 'rif';
+  if (/^Piskvorky/i.test(start)) return 'psq';
+  return 'text';
+};
+
+// Every game in `text`; throws when it cannot be read
+export const parseGames = (text: string, format: NotationFormat = detectFormat(text)): ImportedGame[] => {
+  switch (format) {
+    case 'text': return [parseText(text)];
+    case 'psq': return [parsePSQ(text)];
+    case 'sgf': return parseSgfTrees(text).map(sgfGame);
+    case 'rif': return parseRIF(text);
+  }
+};
+
+export const exportProblem = (format: NotationFormat, board: BoardState): ExportProblem | null => {
+  if ((format === 'text' || format === 'rif') && board.boardSize !== BOARD_SIZE) return 'size';
+  if (format !== 'sgf' && hasSetupStones(board)) return 'setup';
+  return null;
+};
+
+// Throws when the format cannot hold the game (see exportProblem)
+export const writeGame = (format: NotationFormat, board: BoardState, info: ExportInfo): string => {
+  switch (format) {
+    case 'text': return writeText(board);
+    case 'psq': return writePSQ(board);
+    case 'sgf': return writeSGF(board, info);
+    case 'rif': return writeRIF(board, info);
+  }
+};
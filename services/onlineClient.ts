@@ -0,0 +1,139 @@
+import { BoardState, GameSettings, Seat } from '../types';
+import { createInitialState } from './gameLogic';
+import { gameReducer, createGameState } from './gameReducer';
+import { ClientMessage, ServerMessage, OnlineAction, OnlineError, DEFAULT_RELAY_PORT } from './onlineProtocol';
+
+// Browser side of live online play. Actions are only applied once the relay
+// sends them back, so both players see them in the same order. A dropped
+// connection is retried with growing delays; on rejoining, the relay sends
+// the whole log and the game is rebuilt from it.
+
+export type OnlineStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface OnlineRoom {
+  code: string;
+  seat: Seat;
+  board: BoardState;
+}
+
+export interface OnlineHandlers {
+  onStatus: (status: OnlineStatus) => void;
+  onRoom: (room: OnlineRoom) => void;
+  onAction: (action: OnlineAction) => void;
+  onPresence: (online: Record<Seat, boolean>) => void;
+  onError: (error: OnlineError) => void;
+}
+
+export interface OnlineConnection {
+  play: (action: OnlineAction) => void;
+  close: () => void;
+}
+
+const CLIENT_ID_KEY = 'online_client_id';
+const RELAY_URL_KEY = 'relay_url';
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 10000;
+
+// Kept across reloads, so a refreshed page gets its seat back
+const getClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+export const getRelayUrl = (): string =>
+  localStorage.getItem(RELAY_URL_KEY) ?? `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+
+export const saveRelayUrl = (url: string) => localStorage.setItem(RELAY_URL_KEY, url);
+
+// The position after every action in the log, played like a local game
+export const boardFromLog = (settings: GameSettings, log: OnlineAction[]): BoardState =>
+  log.reduce(gameReducer, createGameState(createInitialState(settings))).board;
+
+// Create a room with these settings, or join one by its code
+export const connectOnline = (
+  url: string,
+  target: { settings: GameSettings } | { code: string },
+  handlers: OnlineHandlers
+): OnlineConnection => {
+  const clientId = getClientId();
+  let code = 'code' in target ? target.code.trim().toUpperCase() : null;
+  let logLength = 0;
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let closed = false;
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const onMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'room':
+        code = message.code;
+        logLength = message.log.length;
+        handlers.onRoom({ code, seat: message.seat, board: boardFromLog(message.settings, message.log) });
+        return;
+      case 'action':
+        // Missed something: ask for the whole room again
+        if (message.index !== logLength) {
+          send({ type: 'sync' });
+          return;
+        }
+        logLength++;
+        handlers.onAction(message.action);
+        return;
+      case 'presence':
+        handlers.onPresence(message.online);
+        return;
+      case 'error':
+        handlers.onError(message.reason);
+        // Nothing to come back to if the room could not be entered
+        if (message.reason === 'not-found' || message.reason === 'full') connection.close();
+        return;
+    }
+  };
+
+  const open = () => {
+    handlers.onStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      attempts = 0;
+      handlers.onStatus('open');
+      // Once the room exists, reconnecting is just joining it again
+      send(code ? { type: 'join', clientId, code } : { type: 'create', clientId, settings: (target as { settings: GameSettings }).settings });
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;  // Not a message; drop it
+      }
+      onMessage(message);
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      handlers.onStatus('reconnecting');
+      retryTimer = setTimeout(open, Math.min(RETRY_BASE_MS * 2 ** attempts++, RETRY_MAX_MS));
+    };
+  };
+
+  const connection: OnlineConnection = {
+    play: (action) => send({ type: 'action', index: logLength, action }),
+    close: () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      handlers.onStatus('closed');
+    },
+  };
+
+  open();
+  return connection;
+};
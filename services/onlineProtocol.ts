@@ -0,0 +1,33 @@
+import { GameSettings, OpeningAction, Seat } from '../types';
+
+// Messages between the app and the relay server (server/relay.ts). The relay
+// keeps, per room, the settings and the log of actions both players have
+// played. Each client replays the log through the game reducer, exactly like
+// a local game; the relay does too, to refuse actions out of turn.
+
+// The part of GameAction a player can send to the other side
+export type OnlineAction =
+  | { type: 'move'; row: number; col: number }
+  | { type: 'opening'; action: OpeningAction }
+  | { type: 'resign'; seat: Seat };
+
+export type ClientMessage =
+  | { type: 'create'; clientId: string; settings: GameSettings }
+  // Also used to come back after a lost connection: the same clientId gets its seat back
+  | { type: 'join'; clientId: string; code: string }
+  // `index` is the log length the action was played on; the relay refuses it otherwise
+  | { type: 'action'; index: number; action: OnlineAction }
+  | { type: 'sync' };
+
+export type ServerMessage =
+  // The whole room: sent on joining, and again whenever a client is out of step
+  | { type: 'room'; code: string; seat: Seat; settings: GameSettings; log: OnlineAction[] }
+  | { type: 'action'; index: number; action: OnlineAction }
+  | { type: 'presence'; online: Record<Seat, boolean> }
+  | { type: 'error'; reason: OnlineError };
+
+// 'not-your-turn': an action for the other seat, or played when it was not this seat's turn
+// 'illegal-action': a move on a taken or forbidden point, or an opening step that does not apply
+export type OnlineError = 'not-found' | 'full' | 'bad-message' | 'not-your-turn' | 'illegal-action';
+
+export const DEFAULT_RELAY_PORT = 8787;
@@ -0,0 +1,185 @@
+import { Player, BoardState, Seat, OpeningRule, OpeningPhase, OpeningStep, OpeningActor, OpeningAction } from '../types';
+import { isLegalMove } from './rules';
+
+// Opening protocols that take the first-move advantage away from Black.
+// Each protocol is a list of steps; the phase keeps the remaining steps so
+// that Swap2's "place two more" option can splice extra steps in.
+
+export const MAX_FIFTH_MOVES = 8;
+
+const PROTOCOLS: Record<OpeningRule, { label: string; description: string; steps: OpeningStep[] }> = {
+  [OpeningRule.None]: {
+    label: '无',
+    description: '先手方直接执黑。',
+    steps: [],
+  },
+  [OpeningRule.Swap]: {
+    label: 'Swap',
+    description: '先手方摆放三子（黑白黑），后手方选择执黑或执白，之后由白方下第四手。',
+    steps: [
+      { type: 'place', actor: 'first', count: 3 },
+      { type: 'choose', actor: 'second', options: ['black', 'white'] },
+    ],
+  },
+  [OpeningRule.Swap2]: {
+    label: 'Swap2',
+    description: '先手方摆放三子，后手方可选择执黑、执白，或再摆放两子并由先手方选色。',
+    steps: [
+      { type: 'place', actor: 'first', count: 3 },
+      { type: 'choose', actor: 'second', options: ['black', 'white', 'place-two'] },
+    ],
+  },
+  [OpeningRule.Soosorv]: {
+    label: 'Soosõrv-8',
+    description: '先手方摆放三子，对方可交换；白方下第四手，黑方可交换；黑方声明第五手数量（1-8）后白方可交换；黑方摆出候选第五手，白方选定其一后下第六手。',
+    steps: [
+      { type: 'place', actor: 'first', count: 3 },
+      { type: 'choose', actor: 'second', options: ['black', 'white'] },
+      { type: 'place', actor: 'white', count: 1 },
+      { type: 'choose', actor: 'black', options: ['black', 'white'] },
+      { type: 'declare', actor: 'black' },
+      { type: 'choose', actor: 'white', options: ['black', 'white'] },
+      { type: 'offer', actor: 'black' },
+      { type: 'select', actor: 'white' },
+    ],
+  },
+};
+
+export const OPENING_RULES = Object.values(OpeningRule);
+
+export const getOpeningLabel = (rule: OpeningRule): string => PROTOCOLS[rule].label;
+export const getOpeningDescription = (rule: OpeningRule): string => PROTOCOLS[rule].description;
+
+export const createOpening = (rule: OpeningRule): OpeningPhase | null => {
+  const steps = PROTOCOLS[rule]?.steps ?? [];
+  if (steps.length === 0) return null;
+  return { steps: [...steps], placed: 0, fifthCount: 0, candidates: [] };
+};
+
+export const otherSeat = (seat: Seat): Seat => (seat === Seat.First ? Seat.Second : Seat.First);
+
+// Which seat plays `color` once the colours are settled
+export const seatOf = (state: BoardState, color: Player): Seat =>
+  color === Player.Black ? state.blackSeat : otherSeat(state.blackSeat);
+
+export const colorOf = (state: BoardState, seat: Seat): Player =>
+  seat === state.blackSeat ? Player.Black : Player.White;
+
+const resolveActor = (state: BoardState, actor: OpeningActor): Seat => {
+  switch (actor) {
+    case 'first': return Seat.First;
+    case 'second': return Seat.Second;
+    case 'black': return seatOf(state, Player.Black);
+    case 'white': return seatOf(state, Player.White);
+  }
+};
+
+// The seat that has to act next, in the opening or in normal play
+export const getSeatToMove = (state: BoardState): Seat => {
+  if (state.opening) return resolveActor(state, state.opening.steps[0].actor);
+  return seatOf(state, state.currentPlayer);
+};
+
+// Stones alternate Black, White, Black... so the colour follows from the counts
+export const nextStoneColor = (grid: Player[][]): Player => {
+  let black = 0;
+  let white = 0;
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell === Player.Black) black++;
+      else if (cell === Player.White) white++;
+    }
+  }
+  return black > white ? Player.White : Player.Black;
+};
+
+// Move on to the next step, or hand over to normal play when none are left
+const advance = (state: BoardState, phase: OpeningPhase): BoardState => {
+  const steps = phase.steps.slice(1);
+  if (steps.length === 0) {
+    // The stones placed during the opening are settled and cannot be taken back
+    return { ...state, opening: null, currentPlayer: nextStoneColor(state.grid), fixedMoves: state.history.length };
+  }
+  const opening = { ...phase, steps, placed: 0 };
+  return {
+    ...state,
+    opening,
+    currentPlayer: steps[0].type === 'offer' ? Player.Black : nextStoneColor(state.grid),
+  };
+};
+
+// Apply one opening action. Actions that do not fit the current step are ignored
+// and the state is returned unchanged.
+export const applyOpeningAction = (state: BoardState, action: OpeningAction): BoardState => {
+  const phase = state.opening;
+  if (!phase) return state;
+  const step = phase.steps[0];
+
+  if (action.type === 'place' && step.type === 'place') {
+    const { row, col } = action.move;
+    const color = nextStoneColor(state.grid);
+    if (!isLegalMove(state.grid, row, col, color, state.rule, state.winLength)) return state;
+
+    const grid = state.grid.map(r => [...r]);
+    grid[row][col] = color;
+    const next: BoardState = {
+      ...state,
+      grid,
+      history: [...state.history, { row, col, player: color }],
+      currentPlayer: color === Player.Black ? Player.White : Player.Black,
+    };
+    const placed = phase.placed + 1;
+    if (placed < step.count) return { ...next, opening: { ...phase, placed } };
+    return advance(next, phase);
+  }
+
+  if (action.type === 'place' && step.type === 'offer') {
+    const { row, col } = action.move;
+    if (!isLegalMove(state.grid, row, col, Player.Black, state.rule, state.winLength)) return state;
+    if (phase.candidates.some(p => p.row === row && p.col === col)) return state;
+
+    const candidates = [...phase.candidates, { row, col }];
+    if (candidates.length < phase.fifthCount) return { ...state, opening: { ...phase, candidates } };
+    return advance({ ...state, currentPlayer: Player.White }, { ...phase, candidates });
+  }
+
+  if (action.type === 'choose' && step.type === 'choose') {
+    if (!step.options.includes(action.choice)) return state;
+    const chooser = resolveActor(state, step.actor);
+
+    if (action.choice === 'place-two') {
+      // Swap2: the chooser places two more stones, then the other side picks a colour
+      const otherActor: OpeningActor = chooser === Seat.First ? 'second' : 'first';
+      const extra: OpeningStep[] = [
+        { type: 'place', actor: step.actor, count: 2 },
+        { type: 'choose', actor: otherActor, options: ['black', 'white'] },
+      ];
+      return advance(state, { ...phase, steps: [step, ...extra, ...phase.steps.slice(1)] });
+    }
+
+    const blackSeat = action.choice === 'black' ? chooser : otherSeat(chooser);
+    return advance({ ...state, blackSeat }, phase);
+  }
+
+  if (action.type === 'declare' && step.type === 'declare') {
+    const count = Math.round(action.count);
+    if (count < 1 || count > MAX_FIFTH_MOVES) return state;
+    return advance(state, { ...phase, fifthCount: count });
+  }
+
+  if (action.type === 'select' && step.type === 'select') {
+    const { row, col } = action.move;
+    if (!phase.candidates.some(p => p.row === row && p.col === col)) return state;
+
+    const grid = state.grid.map(r => [...r]);
+    grid[row][col] = Player.Black;
+    const next: BoardState = {
+      ...state,
+      grid,
+      history: [...state.history, { row, col, player: Player.Black }],
+    };
+    return advance(next, { ...phase, candidates: [] });
+  }
+
+  return state;
+};
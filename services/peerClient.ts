@@ -0,0 +1,253 @@
+import { BoardState, GameSettings, Seat } from '../types';
+import { createInitialState } from './gameLogic';
+import { getSeatToMove } from './opening';
+import { gameReducer, createGameState, GameState } from './gameReducer';
+import { chainHash, createGameId } from './remoteGuard';
+import { PeerAction, PeerEvent, PeerMessage } from './peerProtocol';
+
+// Serverless live play over a WebRTC data channel. There is no signalling
+// server: the host's offer and the guest's answer are passed on by hand (copy
+// and paste, a link or a QR code), like the link-passing mode. Both sides
+// keep the action log and check every incoming action against its index and
+// the hash of the resulting moves; a mismatch makes the host resend the game.
+
+export type PeerStatus = 'preparing' | 'waiting' | 'connecting' | 'open' | 'closed';
+
+export interface PeerHandlers {
+  onStatus: (status: PeerStatus) => void;
+  onSignal: (code: string) => void;                 // Our offer or answer, to pass to the other side
+  onBoard: (board: BoardState) => void;             // The whole game, after connecting or resyncing
+  onAction: (action: PeerAction) => void;
+  onEvent: (event: PeerEvent) => void;
+}
+
+export interface PeerSession {
+  seat: Seat;
+  acceptAnswer: (code: string) => Promise<void>;  // Host only
+  play: (action: PeerAction) => void;
+  newGame: (settings: GameSettings) => void;      // Host only
+  send: (event: PeerEvent) => void;
+  close: () => void;
+}
+
+const SIGNAL_PREFIX = 'G1.';
+const PEER_LINK_KEY = 'peer=';
+// A public STUN server lets peers on different networks find each other. It
+// only reports addresses; game data never passes through it.
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+// Stop waiting for more network candidates after this long
+const ICE_GATHERING_TIMEOUT_MS = 4000;
+
+// --- Signalling codes: the session description, deflated and base64url encoded ---
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), ch => ch.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const encodeSignal = async (description: RTCSessionDescriptionInit): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify({ t: description.type, s: description.sdp }));
+  return SIGNAL_PREFIX + toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+};
+
+// Accepts the bare code or a whole invitation link; throws if it is not a connection code
+const decodeSignal = async (text: string, type: RTCSdpType): Promise<RTCSessionDescriptionInit> => {
+  let code = text.trim();
+  if (code.includes(PEER_LINK_KEY)) code = code.slice(code.indexOf(PEER_LINK_KEY) + PEER_LINK_KEY.length);
+  if (!code.startsWith(SIGNAL_PREFIX)) throw new Error('Not a connection code');
+  const json = await transform(fromBase64Url(code.slice(SIGNAL_PREFIX.length)), new DecompressionStream('deflate-raw'));
+  const { t, s } = JSON.parse(new TextDecoder().decode(json));
+  if (t !== type) throw new Error(`Expected an ${type} code`);
+  return { type: t, sdp: s };
+};
+
+// The link a guest opens to join; its hash holds the offer
+export const peerInviteLink = (offer: string): string =>
+  `${window.location.origin}${window.location.pathname}#${PEER_LINK_KEY}${offer}`;
+
+// The offer in a location hash opened from an invitation link, if any
+export const offerFromHash = (hash: string): string | null =>
+  hash.startsWith(PEER_LINK_KEY) ? hash.slice(PEER_LINK_KEY.length) : null;
+
+const iceGatheringDone = (connection: RTCPeerConnection): Promise<void> =>
+  new Promise(resolve => {
+    if (connection.iceGatheringState === 'complete') return resolve();
+    const timer = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+    connection.addEventListener('icegatheringstatechange', () => {
+      if (connection.iceGatheringState !== 'complete') return;
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Host a game with these settings, or join one from the host's offer code
+export const startPeerSession = (
+  role: { settings: GameSettings } | { offer: string },
+  handlers: PeerHandlers
+): PeerSession => {
+  const isHost = 'settings' in role;
+  const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+  let channel: RTCDataChannel | null = null;
+  let closed = false;
+
+  // The game as this side knows it
+  let gameId = createGameId();
+  let settings = isHost ? role.settings : null;
+  let log: PeerAction[] = [];
+  let game: GameState | null = isHost ? createGameState(createInitialState(role.settings)) : null;
+  const remoteSeat = isHost ? Seat.Second : Seat.First;
+  // Our takeback request or draw offer the other side has not answered yet
+  let pending: 'takeback' | 'draw' | null = null;
+
+  const setStatus = (status: PeerStatus) => {
+    if (!closed) handlers.onStatus(status);
+  };
+
+  const send = (message: PeerMessage) => {
+    if (channel?.readyState === 'open') channel.send(JSON.stringify(message));
+  };
+
+  const sendEvent = (event: PeerEvent) => {
+    if (event.type === 'takeback-request') pending = 'takeback';
+    else if (event.type === 'draw-offer') pending = 'draw';
+    send(event);
+  };
+
+  const sendSync = () => {
+    if (settings) send({ type: 'sync', gameId, settings, log });
+  };
+
+  const outOfStep = () => (isHost ? sendSync() : send({ type: 'sync-request' }));
+
+  // Whether the other side may play this: moves on its turn, its own
+  // resignation, and a takeback or draw only in answer to ours
+  const mayPlay = (action: PeerAction): boolean => {
+    if (!game) return false;
+    switch (action.type) {
+      case 'resign':
+        return action.seat === remoteSeat;
+      case 'undo':
+        return pending === 'takeback';
+      case 'draw':
+        return pending === 'draw';
+      default:
+        return !game.board.result && getSeatToMove(game.board) === remoteSeat;
+    }
+  };
+
+  const apply = (action: PeerAction): boolean => {
+    if (!game) return false;
+    const next = gameReducer(game, action);
+    if (next === game) return false;
+    game = next;
+    log = [...log, action];
+    handlers.onAction(action);
+    return true;
+  };
+
+  const onMessage = (message: PeerMessage) => {
+    switch (message.type) {
+      case 'sync':
+        if (isHost) return;
+        ({ gameId, settings, log } = message);
+        pending = null;
+        game = log.reduce(gameReducer, createGameState(createInitialState(message.settings)));
+        handlers.onBoard(game.board);
+        return;
+      case 'sync-request':
+        if (isHost) sendSync();
+        return;
+      case 'action':
+        if (message.index !== log.length || !mayPlay(message.action)) return outOfStep();
+        if (message.action.type === 'undo' || message.action.type === 'draw') pending = null;
+        if (!apply(message.action) || chainHash(gameId, game!.board.history) !== message.hash) {
+          outOfStep();
+        }
+        return;
+      default:
+        if (message.type === 'takeback-declined' || message.type === 'draw-declined') pending = null;
+        handlers.onEvent(message);
+    }
+  };
+
+  const setupChannel = (opened: RTCDataChannel) => {
+    channel = opened;
+    channel.onopen = () => {
+      setStatus('open');
+      if (isHost) sendSync();
+    };
+    channel.onclose = () => setStatus('closed');
+    channel.onmessage = (event: MessageEvent<string>) => {
+      let message: PeerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;  // Not a message; drop it
+      }
+      onMessage(message);
+    };
+  };
+
+  connection.onconnectionstatechange = () => {
+    if (connection.connectionState === 'failed' || connection.connectionState === 'closed') setStatus('closed');
+  };
+
+  // Describe this side once all network candidates are known, so one code is enough
+  const publishDescription = async (description: RTCSessionDescriptionInit) => {
+    await connection.setLocalDescription(description);
+    await iceGatheringDone(connection);
+    if (closed) return;
+    handlers.onSignal(await encodeSignal(connection.localDescription!));
+  };
+
+  setStatus('preparing');
+  if (isHost) {
+    handlers.onBoard(game!.board);
+    setupChannel(connection.createDataChannel('gomoku'));
+    connection.createOffer()
+      .then(publishDescription)
+      .then(() => setStatus('waiting'))
+      .catch(() => setStatus('closed'));
+  } else {
+    connection.ondatachannel = (event) => setupChannel(event.channel);
+    decodeSignal(role.offer, 'offer')
+      .then(offer => connection.setRemoteDescription(offer))
+      .then(() => connection.createAnswer())
+      .then(publishDescription)
+      .then(() => setStatus('connecting'))
+      .catch(() => setStatus('closed'));
+  }
+
+  return {
+    seat: isHost ? Seat.First : Seat.Second,
+    acceptAnswer: async (code) => {
+      await connection.setRemoteDescription(await decodeSignal(code, 'answer'));
+      setStatus('connecting');
+    },
+    play: (action) => {
+      const index = log.length;
+      if (apply(action)) send({ type: 'action', index, action, hash: chainHash(gameId, game!.board.history) });
+    },
+    newGame: (next) => {
+      if (!isHost) return;
+      gameId = createGameId();
+      settings = next;
+      log = [];
+      pending = null;
+      game = createGameState(createInitialState(next));
+      handlers.onBoard(game.board);
+      sendSync();
+    },
+    send: sendEvent,
+    close: () => {
+      if (closed) return;
+      handlers.onStatus('closed');
+      closed = true;
+      connection.close();
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import { GameSettings } from '../types';
+import { OnlineAction } from './onlineProtocol';
+
+// Messages over the peer-to-peer data channel (see peerClient.ts). The host
+// (who made the offer) plays the First seat and owns the game: whenever the
+// two sides disagree, the host's log wins.
+
+// Game actions, applied on both sides in the same order. A takeback or a
+// draw is played by the side that agreed to it.
+export type PeerAction = OnlineAction | { type: 'undo'; count: number } | { type: 'draw' };
+
+export type PeerMessage =
+  // The whole game, sent by the host on connecting and whenever the guest is out of step
+  | { type: 'sync'; gameId: string; settings: GameSettings; log: PeerAction[] }
+  | { type: 'sync-request' }
+  // `index`: the log length it was played on; `hash`: chain hash of the moves after it
+  | { type: 'action'; index: number; action: PeerAction; hash: string }
+  | { type: 'chat'; text: string }
+  | { type: 'takeback-request' }
+  | { type: 'takeback-declined' }
+  | { type: 'draw-offer' }
+  | { type: 'draw-declined' };
+
+// Messages the app handles itself; the rest keep the game in sync
+export type PeerEvent = Extract<PeerMessage, { type: 'chat' | 'takeback-request' | 'takeback-declined' | 'draw-offer' | 'draw-declined' }>;
@@ -0,0 +1,97 @@
+import { BoardState, Coordinates, GameSettings, Move, OpeningRule, Player } from '../types';
+import { createInitialState, getStarPoints, replayMoves } from './gameLogic';
+import { getRules } from './rules';
+
+// Positions set up by hand rather than played out. The stones become the
+// fixed start of the game's history, so they cannot be taken back, and are
+// listed so that replaying them leaves the chosen side to move.
+
+export type PositionProblem = 'five' | 'count' | 'handicap' | 'full';
+
+export const POSITION_PROBLEM_MESSAGES: Record<PositionProblem, string> = {
+  'five': '棋盘上已有连成一线的棋子，对局已经结束。',
+  'count': '黑白子数不对：黑先时两色一样多，白先时黑子多一个。',
+  'handicap': '让子局由白方先走，且黑子要比白子多。',
+  'full': '棋盘已经下满了。',
+};
+
+const count = (grid: Player[][], player: Player): number =>
+  grid.reduce((total, row) => total + row.filter(cell => cell === player).length, 0);
+
+// What keeps the position from being played. With a handicap Black may have
+// any number of extra stones, and White moves first.
+export const validatePosition = (
+  grid: Player[][],
+  toMove: Player,
+  settings: Pick<GameSettings, 'rule' | 'winLength'>,
+  handicap: boolean
+): PositionProblem[] => {
+  const problems: PositionProblem[] = [];
+  const rules = getRules(settings.rule, settings.winLength);
+  const hasFive = grid.some((row, r) => row.some((cell, c) => cell !== Player.None && rules.checkWin(grid, r, c, cell) !== null));
+  if (hasFive) problems.push('five');
+
+  const black = count(grid, Player.Black);
+  const white = count(grid, Player.White);
+  if (handicap) {
+    if (toMove !== Player.White || black <= white) problems.push('handicap');
+  } else if (black - white !== (toMove === Player.Black ? 0 : 1)) {
+    problems.push('count');
+  }
+
+  if (black + white === grid.length * grid.length) problems.push('full');
+  return problems;
+};
+
+// Whether the fixed stones break the usual alternation from Black. Records
+// that keep only the order of the points cannot tell their colours.
+export const hasSetupStones = (state: BoardState): boolean =>
+  state.history.slice(0, state.fixedMoves).some((move, i) => move.player !== (i % 2 === 0 ? Player.Black : Player.White));
+
+// The stones as a history: the side to move's stones first, so the last one
+// belongs to the other side, alternating while both have stones left. That
+// keeps positions with the usual counts in plain play order.
+export const setupHistory = (grid: Player[][], toMove: Player): Move[] => {
+  const stones = (player: Player): Move[] => grid.flatMap((row, r) =>
+    row.flatMap((cell, c) => (cell === player ? [{ row: r, col: c, player }] : [])));
+  const other = toMove === Player.Black ? Player.White : Player.Black;
+  const mine = stones(toMove);
+  const theirs = stones(other);
+  // Extra stones of the side to move go first, then both sides alternate
+  const extra = Math.max(0, mine.length - theirs.length + 1);
+  const history = mine.slice(0, extra);
+  for (let i = extra; i < mine.length; i++) history.push(theirs[i - extra], mine[i]);
+  history.push(...theirs.slice(mine.length - extra));
+  return history;
+};
+
+export const createSetupBoard = (grid: Player[][], toMove: Player, settings: Partial<GameSettings>): BoardState => {
+  const history = setupHistory(grid, toMove);
+  // The stones are already down, so no opening protocol is run
+  const base = createInitialState({ ...settings, openingRule: OpeningRule.None, boardSize: grid.length });
+  // An empty setup is simply a new game with the chosen side to move
+  if (history.length === 0) return { ...base, currentPlayer: toMove };
+  return { ...replayMoves(base, history), fixedMoves: history.length };
+};
+
+// Handicap stones: the centre first, then the other star points, then the
+// points around the centre on boards with too few of them
+export const handicapPoints = (size: number, stones: number): Coordinates[] => {
+  const mid = Math.floor(size / 2);
+  const stars = getStarPoints(size);
+  const points: Coordinates[] = [];
+  const add = (row: number, col: number) => {
+    if (row >= 0 && col >= 0 && row < size && col < size && !points.some(p => p.row === row && p.col === col)) points.push({ row, col });
+  };
+  add(mid, mid);
+  const corners = [stars[0], stars[stars.length - 1]];
+  if (stars.length > 1) {
+    add(corners[0], corners[0]);
+    add(corners[1], corners[1]);
+    add(corners[0], corners[1]);
+    add(corners[1], corners[0]);
+  }
+  for (const row of stars) for (const col of stars) add(row, col);
+  for (const [dr, dc] of [[-1, -1], [1, 1], [-1, 1], [1, -1], [-2, 0], [2, 0], [0, -2], [0, 2]]) add(mid + dr, mid + dc);
+  return points.slice(0, stones);
+};
@@ -0,0 +1,164 @@
+import { Difficulty, GameMode } from '../types';
+
+// Local player profiles. Each profile keeps the outcome of every finished
+// game it played in this browser; records, streaks and averages are worked
+// out from that list. The rating only moves in games against the AI, whose
+// levels have fixed ratings, so it measures progress against known opponents.
+
+export type Outcome = 'win' | 'loss' | 'draw';
+
+export interface ProfileGame {
+  gameId: string;
+  mode: GameMode;
+  difficulty: Difficulty | null; // AI games only
+  outcome: Outcome;
+  moves: number;
+  at: number;
+  rating: number;                // The profile's rating after this game
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  rating: number;
+  games: ProfileGame[]; // Oldest first
+  createdAt: number;
+}
+
+// Outside engines could be of any strength, so games against them leave the rating alone
+export const AI_RATINGS: Partial<Record<Difficulty, number>> = {
+  [Difficulty.Easy]: 800,
+  [Difficulty.Medium]: 1200,
+  [Difficulty.Hard]: 1500,
+  [Difficulty.Master]: 1900,
+};
+
+export const INITIAL_RATING = 1200;
+const K_FACTOR = 32;
+
+const PROFILES_KEY = 'player_profiles';
+const ACTIVE_KEY = 'active_profile';
+const MAX_GAMES = 1000;
+const DEFAULT_NAME = '玩家';
+
+const SCORES: Record<Outcome, number> = { win: 1, draw: 0.5, loss: 0 };
+
+// The chance of beating an opponent, by the usual Elo formula
+export const expectedScore = (rating: number, opponent: number): number =>
+  1 / (1 + 10 ** ((opponent - rating) / 400));
+
+export const ratingAfter = (rating: number, opponent: number, outcome: Outcome): number =>
+  Math.round(rating + K_FACTOR * (SCORES[outcome] - expectedScore(rating, opponent)));
+
+const newProfile = (name: string): Profile => ({
+  id: crypto.randomUUID(),
+  name,
+  rating: INITIAL_RATING,
+  games: [],
+  createdAt: Date.now(),
+});
+
+const loadProfiles = (): Profile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: Profile[]) => localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+
+export const getProfiles = (): Profile[] => loadProfiles();
+
+// The profile games are recorded for; the first visit gets a default one
+export const getActiveProfile = (): Profile => {
+  const profiles = loadProfiles();
+  const active = profiles.find(profile => profile.id === localStorage.getItem(ACTIVE_KEY)) ?? profiles[0];
+  if (active) return active;
+  const created = newProfile(DEFAULT_NAME);
+  storeProfiles([created]);
+  localStorage.setItem(ACTIVE_KEY, created.id);
+  return created;
+};
+
+export const setActiveProfile = (id: string): Profile => {
+  localStorage.setItem(ACTIVE_KEY, id);
+  return getActiveProfile();
+};
+
+export const createProfile = (name: string): Profile => {
+  const created = newProfile(name.trim() || DEFAULT_NAME);
+  storeProfiles([...loadProfiles(), created]);
+  localStorage.setItem(ACTIVE_KEY, created.id);
+  return created;
+};
+
+export const renameProfile = (id: string, name: string): Profile => {
+  if (name.trim()) storeProfiles(loadProfiles().map(profile => profile.id === id ? { ...profile, name: name.trim() } : profile));
+  return getActiveProfile();
+};
+
+// Returns the profile that is active afterwards
+export const deleteProfile = (id: string): Profile => {
+  storeProfiles(loadProfiles().filter(profile => profile.id !== id));
+  return getActiveProfile();
+};
+
+// Add a finished game to a profile. A game is only counted once, so taking
+// moves back after the end and playing on does not change the record.
+export const recordGame = (profileId: string, game: Omit<ProfileGame, 'rating'>): Profile => {
+  const profiles = loadProfiles();
+  const profile = profiles.find(p => p.id === profileId);
+  if (!profile) return getActiveProfile();
+  if (profile.games.some(g => g.gameId === game.gameId)) return profile;
+
+  const opponent = game.mode === GameMode.AI && game.difficulty ? AI_RATINGS[game.difficulty] : undefined;
+  const rating = opponent !== undefined ? ratingAfter(profile.rating, opponent, game.outcome) : profile.rating;
+  const updated: Profile = { ...profile, rating, games: [...profile.games, { ...game, rating }].slice(-MAX_GAMES) };
+  storeProfiles(profiles.map(p => (p.id === profileId ? updated : p)));
+  return updated;
+};
+
+export type OutcomeCounts = Record<Outcome, number>;
+
+export interface ProfileStats {
+  total: OutcomeCounts;
+  byMode: Partial<Record<GameMode, OutcomeCounts>>;
+  byDifficulty: Partial<Record<Difficulty, OutcomeCounts>>;
+  streak: { outcome: Outcome; length: number } | null; // The run of equal results the latest game belongs to
+  bestWinStreak: number;
+  averageMoves: number;
+  peakRating: number;
+}
+
+const emptyCounts = (): OutcomeCounts => ({ win: 0, loss: 0, draw: 0 });
+
+export const computeStats = (profile: Profile): ProfileStats => {
+  const total = emptyCounts();
+  const byMode: ProfileStats['byMode'] = {};
+  const byDifficulty: ProfileStats['byDifficulty'] = {};
+  let streak: ProfileStats['streak'] = null;
+  let bestWinStreak = 0;
+  let moves = 0;
+  let peakRating = INITIAL_RATING;
+
+  for (const game of profile.games) {
+    total[game.outcome]++;
+    (byMode[game.mode] ??= emptyCounts())[game.outcome]++;
+    if (game.difficulty) (byDifficulty[game.difficulty] ??= emptyCounts())[game.outcome]++;
+    streak = streak?.outcome === game.outcome ? { outcome: game.outcome, length: streak.length + 1 } : { outcome: game.outcome, length: 1 };
+    if (streak.outcome === 'win') bestWinStreak = Math.max(bestWinStreak, streak.length);
+    moves += game.moves;
+    peakRating = Math.max(peakRating, game.rating);
+  }
+
+  return {
+    total,
+    byMode,
+    byDifficulty,
+    streak,
+    bestWinStreak,
+    averageMoves: profile.games.length ? moves / profile.games.length : 0,
+    peakRating,
+  };
+};
@@ -0,0 +1,150 @@
+import { BoardState, Coordinates, Move, Player, RuleVariant } from '../types';
+import { createInitialState, replayMoves } from './gameLogic';
+import { GameRules, isLegalFor } from './rules';
+import { DEFAULT_SOLVER_OPTIONS, SolverOptions, ThreatKind, findForcedWin, findForcedWinDefence } from './threatSolver';
+import { scoreMoves } from './geminiService';
+import beginner from '../data/puzzles/beginner.json';
+import intermediate from '../data/puzzles/intermediate.json';
+import advanced from '../data/puzzles/advanced.json';
+
+// Puzzles: a position where the side to move has a forced win (VCF or VCT,
+// see threatSolver.ts) in at most `maxMoves` of its own moves. The sets live
+// in data/puzzles/, one file per tier, with positions as ordinary move lists.
+
+export type PuzzleTier = 'beginner' | 'intermediate' | 'advanced';
+
+export interface Puzzle {
+  id: string;
+  tier: PuzzleTier;
+  rule: RuleVariant;
+  boardSize: number;
+  kind: ThreatKind;  // VCF puzzles are won with fours alone
+  maxMoves: number;  // Attacking moves allowed, the winning one included
+  moves: Move[];     // The position, in play order
+  solution: Move[];  // One winning line, attacker and defender alternating
+}
+
+export interface PuzzleProgress {
+  attempts: number;
+  solvedAt: number | null; // First solved
+}
+
+// The defender's answer to an attacking move
+export interface PuzzleReply {
+  reply: Coordinates | null; // null only when there is nowhere left to play
+  lost: boolean;             // The forced win is gone: the attacking move was wrong
+}
+
+export const PUZZLE_TIERS: PuzzleTier[] = ['beginner', 'intermediate', 'advanced'];
+
+const FILES: Record<PuzzleTier, unknown[]> = { beginner, intermediate, advanced };
+
+export const PUZZLES: Puzzle[] = PUZZLE_TIERS.flatMap(tier =>
+  (FILES[tier] as Omit<Puzzle, 'tier'>[]).map(puzzle => ({ ...puzzle, tier })));
+
+export const findPuzzle = (id: string): Puzzle | null => PUZZLES.find(puzzle => puzzle.id === id) ?? null;
+
+export const puzzleAttacker = (puzzle: Puzzle): Player =>
+  puzzle.moves[puzzle.moves.length - 1]?.player === Player.Black ? Player.White : Player.Black;
+
+// The puzzle position, its stones fixed so they cannot be taken back
+export const createPuzzleBoard = (puzzle: Puzzle): BoardState => ({
+  ...replayMoves(createInitialState({ rule: puzzle.rule, boardSize: puzzle.boardSize }), puzzle.moves),
+  fixedMoves: puzzle.moves.length,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The same puzzle for everyone on a given calendar day, going round the whole set
+export const dailyPuzzle = (date: Date = new Date()): Puzzle => {
+  const day = Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+  return PUZZLES[day % PUZZLES.length];
+};
+
+// Links: "#puzzle=<id>" opens a puzzle of the built-in set
+const PUZZLE_LINK_KEY = 'puzzle=';
+
+export const puzzleLink = (puzzle: Puzzle): string =>
+  `${window.location.origin}${window.location.pathname}#${PUZZLE_LINK_KEY}${puzzle.id}`;
+
+export const puzzleFromHash = (hash: string): Puzzle | null =>
+  hash.startsWith(PUZZLE_LINK_KEY) ? findPuzzle(decodeURIComponent(hash.slice(PUZZLE_LINK_KEY.length))) : null;
+
+const PROGRESS_KEY = 'puzzle_progress';
+
+export const getPuzzleProgress = (): Record<string, PuzzleProgress> => {
+  try {
+    return JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Count a finished attempt; returns the updated progress of every puzzle
+export const recordPuzzleAttempt = (id: string, solved: boolean): Record<string, PuzzleProgress> => {
+  const progress = getPuzzleProgress();
+  const previous = progress[id] ?? { attempts: 0, solvedAt: null };
+  progress[id] = {
+    attempts: previous.attempts + 1,
+    solvedAt: previous.solvedAt ?? (solved ? Date.now() : null),
+  };
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  return progress;
+};
+
+const winningPoints = (grid: Player[][], player: Player, rules: GameRules): Coordinates[] => {
+  const points: Coordinates[] = [];
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid.length; col++) {
+      if (grid[row][col] !== Player.None) continue;
+      grid[row][col] = player;
+      const wins = rules.checkWin(grid, row, col, player) !== null;
+      grid[row][col] = Player.None;
+      if (wins && isLegalFor(rules, grid, row, col, player)) points.push({ row, col });
+    }
+  }
+  return points;
+};
+
+// Whether `attacker`, to move, still wins within `movesLeft` moves
+const stillWins = (grid: Player[][], attacker: Player, rules: GameRules, kind: ThreatKind, movesLeft: number): boolean => {
+  if (movesLeft <= 0) return false;
+  if (winningPoints(grid, attacker, rules).length > 0) return true;
+  // The solver's depth counts the attacking moves before the winning one
+  const options: SolverOptions = { ...DEFAULT_SOLVER_OPTIONS, vcfDepth: movesLeft - 1, vctDepth: movesLeft - 1 };
+  return findForcedWin(grid, attacker, rules, options, kind === 'VCF' ? ['VCF'] : ['VCF', 'VCT']) !== null;
+};
+
+// The most stubborn reply for `defender` after an attacking move, with
+// `movesLeft` attacking moves still allowed. A five is taken, a four is
+// blocked, and anything else is met with a move that refutes the attack if
+// there is one, or else the point the attack needs next.
+export const defendPuzzle = (
+  grid: Player[][],
+  defender: Player,
+  rules: GameRules,
+  kind: ThreatKind,
+  movesLeft: number
+): PuzzleReply => {
+  const attacker = defender === Player.Black ? Player.White : Player.Black;
+  const scratch = grid.map(row => [...row]);
+
+  const own = winningPoints(scratch, defender, rules);
+  if (own.length > 0) return { reply: own[0], lost: true };
+
+  const fours = winningPoints(scratch, attacker, rules);
+  let reply: Coordinates | null = null;
+  if (fours.length > 0) {
+    reply = isLegalFor(rules, scratch, fours[0].row, fours[0].col, defender) ? fours[0] : null;
+  } else {
+    reply = findForcedWinDefence(scratch, defender, rules);
+    const threat = reply ? null : findForcedWin(scratch, attacker, rules);
+    const key = threat?.line[0];
+    if (key && isLegalFor(rules, scratch, key.row, key.col, defender)) reply = { row: key.row, col: key.col };
+  }
+  reply = reply ?? scoreMoves(scratch, defender, rules)[0]?.move ?? null;
+  if (!reply) return { reply, lost: true };
+
+  scratch[reply.row][reply.col] = defender;
+  return { reply, lost: !stillWins(scratch, attacker, rules, kind, movesLeft) };
+};
@@ -0,0 +1,96 @@
+import { Player, Move } from '../types';
+
+// Checks for games played by passing links back and forth. Each link carries
+// a game id and a hash chained over its moves, and each browser remembers the
+// colour it plays and the last position it has seen in every game. The hash
+// is not a signature (anyone can recompute it), but it catches hand-edited
+// links, replays of old links and stones placed for the wrong side.
+
+export type RemoteWarning = 'tampered' | 'stale' | 'forked' | 'wrong-side';
+
+export const REMOTE_WARNING_MESSAGES: Record<RemoteWarning, string> = {
+  'tampered': '链接中的棋谱与校验值不符，可能被手动修改过。',
+  'stale': '这是一个旧链接：你已经看到过更新的局面。',
+  'forked': '棋谱与你之前看到的不一致，可能被改写或从旧链接分叉。',
+  'wrong-side': '有人替你执的一方落了子。',
+};
+
+export interface RemoteRecord {
+  owned: Player | null; // The colour this browser plays, once it has placed a stone
+  moveCount: number;    // Moves in the latest position seen here
+  chain: string;        // Chain hash of those moves
+  updated: number;
+}
+
+const STORAGE_KEY = 'remote_games';
+const MAX_RECORDS = 50;
+
+// 64-bit FNV-1a, continued move by move so that every prefix has its own hash
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = 0xffffffffffffffffn;
+
+const fnv = (hash: bigint, bytes: number[]): bigint => {
+  for (const byte of bytes) {
+    hash = ((hash ^ BigInt(byte & 0xff)) * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+};
+
+export const GAME_ID_BYTES = 8;
+
+export const createGameId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(GAME_ID_BYTES)), b => b.toString(16).padStart(2, '0')).join('');
+
+// 16 hex digits; the game id seeds the chain so equal games get different hashes
+export const chainHash = (gameId: string, moves: Move[]): string => {
+  let hash = fnv(FNV_OFFSET, Array.from(gameId, ch => ch.charCodeAt(0)));
+  for (const { row, col } of moves) hash = fnv(hash, [row, col]);
+  return hash.toString(16).padStart(16, '0');
+};
+
+const loadRecords = (): Record<string, RemoteRecord> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getRemoteRecord = (gameId: string): RemoteRecord | null => loadRecords()[gameId] ?? null;
+
+// Remember the position this browser has now seen (and the colour it plays).
+// Keeps only the most recently touched games.
+export const recordRemotePosition = (gameId: string, moves: Move[], owned: Player | null) => {
+  const records = loadRecords();
+  records[gameId] = {
+    owned: owned ?? records[gameId]?.owned ?? null,
+    moveCount: moves.length,
+    chain: chainHash(gameId, moves),
+    updated: Date.now(),
+  };
+  const kept = Object.entries(records)
+    .sort(([, a], [, b]) => b.updated - a.updated)
+    .slice(0, MAX_RECORDS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+};
+
+// Everything suspicious about a link that was just opened
+export const checkSharedGame = (gameId: string, chain: string, moves: Move[]): RemoteWarning[] => {
+  const warnings: RemoteWarning[] = [];
+  if (chainHash(gameId, moves) !== chain) warnings.push('tampered');
+
+  const record = getRemoteRecord(gameId);
+  if (!record) return warnings;
+
+  if (moves.length < record.moveCount) {
+    warnings.push('stale');
+  } else if (chainHash(gameId, moves.slice(0, record.moveCount)) !== record.chain) {
+    warnings.push('forked');
+  }
+  // Since we last looked, only the other side should have moved
+  if (record.owned !== null && moves.slice(record.moveCount).some(m => m.player === record.owned)) {
+    warnings.push('wrong-side');
+  }
+  return warnings;
+};
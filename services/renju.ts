@@ -0,0 +1,139 @@
+import { Player, ForbiddenReason } from '../types';
+
+// Forbidden-move detection. Renju restricts only Black: a move that makes an
+// exact five always wins, otherwise overlines, double-fours and double-threes
+// are forbidden. Omok forbids only the double-three, for both sides.
+// "Five" and "four" are relative to the game's win length.
+
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+// A three only counts if the point that turns it into a straight four is itself
+// playable, which needs a recursive check. Deep chains are vanishingly rare, so
+// we stop following them after a few levels.
+const MAX_THREE_DEPTH = 3;
+
+interface ForbiddenContext {
+  player: Player;
+  winLength: number;
+  exactFive: boolean;   // Whether only an exact five counts as a five
+  fullRenju: boolean;   // Also forbid overlines and double-fours
+}
+
+const inBounds = (grid: Player[][], r: number, c: number): boolean =>
+  r >= 0 && r < grid.length && c >= 0 && c < grid.length;
+
+// Length of the unbroken run of `player` stones through (r, c) in one direction
+const runLength = (grid: Player[][], r: number, c: number, dr: number, dc: number, player: Player): number => {
+  let count = 1;
+
+  let nr = r + dr;
+  let nc = c + dc;
+  while (inBounds(grid, nr, nc) && grid[nr][nc] === player) {
+    count++;
+    nr += dr;
+    nc += dc;
+  }
+
+  nr = r - dr;
+  nc = c - dc;
+  while (inBounds(grid, nr, nc) && grid[nr][nc] === player) {
+    count++;
+    nr -= dr;
+    nc -= dc;
+  }
+
+  return count;
+};
+
+const isFive = (length: number, ctx: ForbiddenContext): boolean =>
+  ctx.exactFive ? length === ctx.winLength : length >= ctx.winLength;
+
+// Offsets of the empty points on this line that would give the stone at (r, c) a five
+const fiveCompletions = (grid: Player[][], r: number, c: number, dr: number, dc: number, ctx: ForbiddenContext): number[] => {
+  const offsets: number[] = [];
+
+  for (let i = -(ctx.winLength - 1); i <= ctx.winLength - 1; i++) {
+    if (i === 0) continue;
+    const nr = r + dr * i;
+    const nc = c + dc * i;
+    if (!inBounds(grid, nr, nc) || grid[nr][nc] !== Player.None) continue;
+
+    grid[nr][nc] = ctx.player;
+    if (isFive(runLength(grid, r, c, dr, dc, ctx.player), ctx)) {
+      offsets.push(i);
+    }
+    grid[nr][nc] = Player.None;
+  }
+
+  return offsets;
+};
+
+// Number of distinct fours through (r, c) in one direction. A straight four
+// (.XXXX.) has two completion points but is still a single four.
+const countFours = (grid: Player[][], r: number, c: number, dr: number, dc: number, ctx: ForbiddenContext): number => {
+  const offsets = fiveCompletions(grid, r, c, dr, dc, ctx);
+  if (offsets.length === 2 && Math.abs(offsets[1] - offsets[0]) === ctx.winLength) return 1;
+  return offsets.length;
+};
+
+const isStraightFour = (grid: Player[][], r: number, c: number, dr: number, dc: number, ctx: ForbiddenContext): boolean => {
+  const offsets = fiveCompletions(grid, r, c, dr, dc, ctx);
+  return offsets.length === 2 && Math.abs(offsets[1] - offsets[0]) === ctx.winLength;
+};
+
+// A "real" three: one more playable stone on this line makes a straight four
+const hasThree = (grid: Player[][], r: number, c: number, dr: number, dc: number, ctx: ForbiddenContext, depth: number): boolean => {
+  for (let i = -(ctx.winLength - 1); i <= ctx.winLength - 1; i++) {
+    if (i === 0) continue;
+    const nr = r + dr * i;
+    const nc = c + dc * i;
+    if (!inBounds(grid, nr, nc) || grid[nr][nc] !== Player.None) continue;
+
+    grid[nr][nc] = ctx.player;
+    const straight = isStraightFour(grid, r, c, dr, dc, ctx);
+    grid[nr][nc] = Player.None;
+
+    if (straight && (depth >= MAX_THREE_DEPTH || !forbiddenReason(grid, nr, nc, ctx, depth + 1))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// The grid is used as scratch space but is always restored
+const forbiddenReason = (grid: Player[][], r: number, c: number, ctx: ForbiddenContext, depth: number): ForbiddenReason | null => {
+  if (grid[r][c] !== Player.None) return null;
+
+  grid[r][c] = ctx.player;
+  try {
+    const runs = DIRECTIONS.map(([dr, dc]) => runLength(grid, r, c, dr, dc, ctx.player));
+
+    // A five wins outright, even if it also creates forbidden shapes
+    if (runs.some(len => isFive(len, ctx))) return null;
+    if (ctx.fullRenju && runs.some(len => len > ctx.winLength)) return 'overline';
+
+    let fours = 0;
+    let threes = 0;
+    for (const [dr, dc] of DIRECTIONS) {
+      const lineFours = countFours(grid, r, c, dr, dc, ctx);
+      fours += lineFours;
+      if (lineFours === 0 && hasThree(grid, r, c, dr, dc, ctx, depth)) {
+        threes++;
+      }
+    }
+
+    if (ctx.fullRenju && fours >= 2) return 'double-four';
+    if (threes >= 2) return 'double-three';
+    return null;
+  } finally {
+    grid[r][c] = Player.None;
+  }
+};
+
+// Why Black may not play at (r, c) under Renju, or null if the move is allowed
+export const getRenjuForbiddenReason = (grid: Player[][], r: number, c: number, winLength: number): ForbiddenReason | null =>
+  forbiddenReason(grid, r, c, { player: Player.Black, winLength, exactFive: true, fullRenju: true }, 0);
+
+// Whether (r, c) would give `player` two open threes at once (Omok)
+export const isDoubleThree = (grid: Player[][], r: number, c: number, player: Player, winLength: number): boolean =>
+  forbiddenReason(grid, r, c, { player, winLength, exactFive: false, fullRenju: false }, 0) === 'double-three';
@@ -0,0 +1,185 @@
+import { WIN_COUNT } from '../constants';
+import { Player, Coordinates, RuleVariant, ForbiddenReason } from '../types';
+import { getRenjuForbiddenReason, isDoubleThree } from './renju';
+
+// Each rule variant decides two things: which points a player may not play,
+// and which lines through the last move count as a win.
+export interface GameRules {
+  variant: RuleVariant;
+  winLength: number;
+  label: string;
+  description: string; // Plain-English summary, also used in the LLM prompt
+  hasForbiddenMoves: boolean;
+  getForbiddenReason: (grid: Player[][], r: number, c: number, player: Player) => ForbiddenReason | null;
+  checkWin: (grid: Player[][], r: number, c: number, player: Player) => Coordinates[] | null;
+}
+
+const DIRECTIONS = [
+  [0, 1],   // Horizontal
+  [1, 0],   // Vertical
+  [1, 1],   // Diagonal \
+  [1, -1]   // Diagonal /
+];
+
+const inBounds = (grid: Player[][], r: number, c: number): boolean =>
+  r >= 0 && r < grid.length && c >= 0 && c < grid.length;
+
+const opponentOf = (player: Player): Player =>
+  player === Player.Black ? Player.White : Player.Black;
+
+// The unbroken run of `player` stones through (r, c), ordered along the direction
+const lineThrough = (grid: Player[][], r: number, c: number, dr: number, dc: number, player: Player): Coordinates[] => {
+  let sr = r;
+  let sc = c;
+  while (inBounds(grid, sr - dr, sc - dc) && grid[sr - dr][sc - dc] === player) {
+    sr -= dr;
+    sc -= dc;
+  }
+
+  const line: Coordinates[] = [];
+  while (inBounds(grid, sr, sc) && grid[sr][sc] === player) {
+    line.push({ row: sr, col: sc });
+    sr += dr;
+    sc += dc;
+  }
+  return line;
+};
+
+// Builds a checkWin from a predicate over each line through the last move
+const winWhen = (isWinning: (grid: Player[][], line: Coordinates[], dr: number, dc: number, player: Player) => boolean) =>
+  (grid: Player[][], r: number, c: number, player: Player): Coordinates[] | null => {
+    for (const [dr, dc] of DIRECTIONS) {
+      const line = lineThrough(grid, r, c, dr, dc, player);
+      if (isWinning(grid, line, dr, dc, player)) return line;
+    }
+    return null;
+  };
+
+const atLeast = (winLength: number) => winWhen((_grid, line) => line.length >= winLength);
+const exactly = (winLength: number) => winWhen((_grid, line) => line.length === winLength);
+
+// Caro: a line is dead if the opponent has closed both of its ends
+const unblocked = (winLength: number) => winWhen((grid, line, dr, dc, player) => {
+  if (line.length < winLength) return false;
+  const first = line[0];
+  const last = line[line.length - 1];
+  const opp = opponentOf(player);
+  const blockedBefore = inBounds(grid, first.row - dr, first.col - dc) && grid[first.row - dr][first.col - dc] === opp;
+  const blockedAfter = inBounds(grid, last.row + dr, last.col + dc) && grid[last.row + dr][last.col + dc] === opp;
+  return !(blockedBefore && blockedAfter);
+});
+
+const noForbiddenMoves = () => null;
+
+// Descriptions say "five" for the default win length, otherwise the actual number
+const inARow = (winLength: number): string => winLength === WIN_COUNT ? 'five' : `${winLength}`;
+
+const RULES: Record<RuleVariant, (winLength: number) => GameRules> = {
+  [RuleVariant.Freestyle]: (n) => ({
+    variant: RuleVariant.Freestyle,
+    winLength: n,
+    label: '自由',
+    description: `Freestyle rules: ${inARow(n)} or more in a row wins for either side.`,
+    hasForbiddenMoves: false,
+    getForbiddenReason: noForbiddenMoves,
+    checkWin: atLeast(n),
+  }),
+  [RuleVariant.Standard]: (n) => ({
+    variant: RuleVariant.Standard,
+    winLength: n,
+    label: '标准',
+    description: `Standard Gomoku rules: exactly ${inARow(n)} in a row wins for either side; longer lines do not count.`,
+    hasForbiddenMoves: false,
+    getForbiddenReason: noForbiddenMoves,
+    checkWin: exactly(n),
+  }),
+  [RuleVariant.Renju]: (n) => {
+    const blackWin = exactly(n);
+    const whiteWin = atLeast(n);
+    return {
+      variant: RuleVariant.Renju,
+      winLength: n,
+      label: '连珠',
+      description: `Renju rules: Black wins only with exactly ${inARow(n)} in a row, and Black may not play a move that creates a double-three, a double-four or an overline (longer than ${inARow(n)}). White wins with ${inARow(n)} or more.`,
+      hasForbiddenMoves: true,
+      getForbiddenReason: (grid, r, c, player) =>
+        player === Player.Black ? getRenjuForbiddenReason(grid, r, c, n) : null,
+      checkWin: (grid, r, c, player) =>
+        player === Player.Black ? blackWin(grid, r, c, player) : whiteWin(grid, r, c, player),
+    };
+  },
+  [RuleVariant.Caro]: (n) => ({
+    variant: RuleVariant.Caro,
+    winLength: n,
+    label: 'Caro',
+    description: `Caro rules: ${inARow(n)} or more in a row wins, unless the opponent has stones at both ends of the line.`,
+    hasForbiddenMoves: false,
+    getForbiddenReason: noForbiddenMoves,
+    checkWin: unblocked(n),
+  }),
+  [RuleVariant.Omok]: (n) => ({
+    variant: RuleVariant.Omok,
+    winLength: n,
+    label: 'Omok',
+    description: `Omok rules: ${inARow(n)} or more in a row wins, and neither side may play a move that creates two open threes at once (double-three).`,
+    hasForbiddenMoves: true,
+    getForbiddenReason: (grid, r, c, player) =>
+      isDoubleThree(grid, r, c, player, n) ? 'double-three' : null,
+    checkWin: atLeast(n),
+  }),
+};
+
+const cache = new Map<string, GameRules>();
+
+export const RULE_VARIANTS = Object.values(RuleVariant);
+
+export const getRules = (variant: RuleVariant, winLength: number = WIN_COUNT): GameRules => {
+  const key = `${variant}:${winLength}`;
+  let rules = cache.get(key);
+  if (!rules) {
+    rules = (RULES[variant] ?? RULES[RuleVariant.Freestyle])(winLength);
+    cache.set(key, rules);
+  }
+  return rules;
+};
+
+// Whether `player` is allowed to place a stone at (r, c) under these rules
+export const isLegalFor = (rules: GameRules, grid: Player[][], r: number, c: number, player: Player): boolean => {
+  if (grid[r][c] !== Player.None) return false;
+  return !rules.hasForbiddenMoves || rules.getForbiddenReason(grid, r, c, player) === null;
+};
+
+export const isLegalMove = (
+  grid: Player[][],
+  r: number,
+  c: number,
+  player: Player,
+  variant: RuleVariant,
+  winLength: number = WIN_COUNT
+): boolean => {
+  return isLegalFor(getRules(variant, winLength), grid, r, c, player);
+};
+
+// All empty points `player` may not play on, used to flag them on the board
+export const getForbiddenPoints = (
+  grid: Player[][],
+  player: Player,
+  variant: RuleVariant,
+  winLength: number = WIN_COUNT
+): (Coordinates & { reason: ForbiddenReason })[] => {
+  const rules = getRules(variant, winLength);
+  if (!rules.hasForbiddenMoves) return [];
+
+  const scratch = grid.map(row => [...row]);
+  const points: (Coordinates & { reason: ForbiddenReason })[] = [];
+
+  for (let r = 0; r < scratch.length; r++) {
+    for (let c = 0; c < scratch.length; c++) {
+      if (scratch[r][c] !== Player.None) continue;
+      const reason = rules.getForbiddenReason(scratch, r, c, player);
+      if (reason) points.push({ row: r, col: c, reason });
+    }
+  }
+
+  return points;
+};
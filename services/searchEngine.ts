@@ -0,0 +1,466 @@
+import { Player, Coordinates } from '../types';
+import { GameRules, isLegalFor } from './rules';
+
+// Local search engine: iterative-deepening negamax with alpha-beta pruning,
+// a Zobrist-hashed transposition table and an evaluation that is updated
+// incrementally as stones are placed and removed.
+
+export interface EngineOptions {
+  timeLimitMs: number; // Stop deepening once this much time has been spent
+  maxDepth: number;    // Never search deeper than this many plies
+  bridgeUrl?: string;  // Difficulty.Engine: where server/engineBridge.ts listens
+}
+
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+  timeLimitMs: 1500,
+  maxDepth: 10,
+};
+
+export interface SearchResult {
+  move: Coordinates;
+  score: number;  // From the point of view of the side to move
+  depth: number;  // Deepest fully completed iteration
+  nodes: number;
+}
+
+const WIN_SCORE = 1_000_000_000;
+// Scores this close to WIN_SCORE mean a forced win (or loss) was found
+const WIN_THRESHOLD = WIN_SCORE - 1000;
+
+// Only the most promising moves are searched at each node
+const ROOT_BRANCHING = 20;
+const NODE_BRANCHING = 12;
+// Candidate moves are empty points within this distance of a stone
+const NEIGHBOR_RADIUS = 2;
+
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+enum Bound { Exact, Lower, Upper }
+
+interface TTEntry {
+  check: number;  // Second hash word, guards against index collisions
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: number;   // Best move as a cell index, or -1
+}
+
+// --- Board geometry: every line of cells that can hold a win ---
+
+interface Geometry {
+  lines: Int32Array[];   // Cell indexes of each line, in order
+  cellLines: Int32Array; // For each cell, the 4 lines it lies on (-1 if the line is too short)
+}
+
+const geometryCache = new Map<string, Geometry>();
+
+const getGeometry = (size: number, winLength: number): Geometry => {
+  const key = `${size}:${winLength}`;
+  const cached = geometryCache.get(key);
+  if (cached) return cached;
+
+  const lines: Int32Array[] = [];
+  const cellLines = new Int32Array(size * size * 4).fill(-1);
+
+  DIRECTIONS.forEach(([dr, dc], dir) => {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        // Only start a line at a cell whose predecessor is off the board
+        const pr = r - dr;
+        const pc = c - dc;
+        if (pr >= 0 && pr < size && pc >= 0 && pc < size) continue;
+
+        const cells: number[] = [];
+        let nr = r;
+        let nc = c;
+        while (nr >= 0 && nr < size && nc >= 0 && nc < size) {
+          cells.push(nr * size + nc);
+          nr += dr;
+          nc += dc;
+        }
+        if (cells.length < winLength) continue;
+
+        const index = lines.length;
+        lines.push(Int32Array.from(cells));
+        for (const cell of cells) cellLines[cell * 4 + dir] = index;
+      }
+    }
+  });
+
+  const geometry = { lines, cellLines };
+  geometryCache.set(key, geometry);
+  return geometry;
+};
+
+// --- Zobrist keys: two independent 32-bit words per cell and colour ---
+
+interface ZobristTable {
+  lo: Uint32Array;
+  hi: Uint32Array;
+}
+
+const zobristCache = new Map<number, ZobristTable>();
+
+// Small deterministic PRNG so hashes are reproducible between runs
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const getZobrist = (size: number): ZobristTable => {
+  const cached = zobristCache.get(size);
+  if (cached) return cached;
+
+  const random = mulberry32(size * 7919);
+  const count = size * size * 2 + 1; // Last entry marks "White to move"
+  const table = { lo: new Uint32Array(count), hi: new Uint32Array(count) };
+  for (let i = 0; i < count; i++) {
+    table.lo[i] = random();
+    table.hi[i] = random();
+  }
+  zobristCache.set(size, table);
+  return table;
+};
+
+// --- Search state ---
+
+interface SearchContext {
+  grid: Player[][];
+  cells: Uint8Array;        // Flat copy of the grid for fast line scans
+  size: number;
+  rules: GameRules;
+  geometry: Geometry;
+  zobrist: ZobristTable;
+  weights: number[];        // Score of a window holding k stones of one colour
+  lineScores: Float64Array; // Per line: Black's pattern score minus White's
+  score: number;            // Sum of lineScores
+  hashLo: number;
+  hashHi: number;
+  stones: number[];         // Occupied cells, in the order they were placed
+  tt: Map<number, TTEntry>;
+  seen: Uint32Array;        // Generation stamps used to deduplicate candidates
+  generation: number;
+  nodes: number;
+  deadline: number;
+  aborted: boolean;
+}
+
+// Sliding-window pattern score of one line: every window of `winLength` cells
+// that holds stones of only one colour is worth weights[count] to that colour
+const scoreLine = (ctx: SearchContext, line: Int32Array): number => {
+  const n = ctx.rules.winLength;
+  let black = 0;
+  let white = 0;
+  let score = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const cell = ctx.cells[line[i]];
+    if (cell === Player.Black) black++;
+    else if (cell === Player.White) white++;
+
+    if (i >= n) {
+      const old = ctx.cells[line[i - n]];
+      if (old === Player.Black) black--;
+      else if (old === Player.White) white--;
+    }
+
+    if (i >= n - 1) {
+      if (white === 0) score += ctx.weights[black];
+      else if (black === 0) score -= ctx.weights[white];
+    }
+  }
+  return score;
+};
+
+const updateLines = (ctx: SearchContext, cell: number) => {
+  for (let dir = 0; dir < 4; dir++) {
+    const index = ctx.geometry.cellLines[cell * 4 + dir];
+    if (index < 0) continue;
+    const updated = scoreLine(ctx, ctx.geometry.lines[index]);
+    ctx.score += updated - ctx.lineScores[index];
+    ctx.lineScores[index] = updated;
+  }
+};
+
+const toggleHash = (ctx: SearchContext, cell: number, player: Player) => {
+  const key = cell * 2 + (player === Player.Black ? 0 : 1);
+  ctx.hashLo ^= ctx.zobrist.lo[key];
+  ctx.hashHi ^= ctx.zobrist.hi[key];
+};
+
+const place = (ctx: SearchContext, cell: number, player: Player) => {
+  ctx.cells[cell] = player;
+  ctx.grid[Math.floor(cell / ctx.size)][cell % ctx.size] = player;
+  ctx.stones.push(cell);
+  toggleHash(ctx, cell, player);
+  updateLines(ctx, cell);
+};
+
+const unplace = (ctx: SearchContext, cell: number, player: Player) => {
+  ctx.cells[cell] = Player.None;
+  ctx.grid[Math.floor(cell / ctx.size)][cell % ctx.size] = Player.None;
+  ctx.stones.pop();
+  toggleHash(ctx, cell, player);
+  updateLines(ctx, cell);
+};
+
+const evaluate = (ctx: SearchContext, player: Player): number =>
+  player === Player.Black ? ctx.score : -ctx.score;
+
+// Quick local value of a point for move ordering: how much it extends
+// `player`'s lines plus how much it cuts the opponent's
+const movePriority = (ctx: SearchContext, cell: number, player: Player): number => {
+  const { size, cells } = ctx;
+  const n = ctx.rules.winLength;
+  const r = Math.floor(cell / size);
+  const c = cell % size;
+  let priority = 0;
+
+  for (const [dr, dc] of DIRECTIONS) {
+    for (const who of [player, player === Player.Black ? Player.White : Player.Black]) {
+      let count = 0;
+      let open = 0;
+      for (const sign of [1, -1]) {
+        let i = 1;
+        while (true) {
+          const nr = r + dr * i * sign;
+          const nc = c + dc * i * sign;
+          if (nr < 0 || nr >= size || nc < 0 || nc >= size) break;
+          const value = cells[nr * size + nc];
+          if (value === who) {
+            count++;
+          } else {
+            if (value === Player.None) open++;
+            break;
+          }
+          i++;
+        }
+      }
+      // Completing a line beats everything; then longer and more open runs
+      const weight = count >= n - 1 ? 1_000_000 : ctx.weights[Math.min(count + 1, n - 1)] * (open + 1);
+      priority += who === player ? weight * 1.1 : weight;
+    }
+  }
+  return priority;
+};
+
+// Candidate moves near existing stones, best first, limited to `limit` legal moves
+const orderedMoves = (ctx: SearchContext, player: Player, limit: number, firstMove: number): number[] => {
+  const { size, cells, stones } = ctx;
+  const generation = ++ctx.generation;
+  const candidates: { cell: number, priority: number }[] = [];
+
+  for (const stone of stones) {
+    const sr = Math.floor(stone / size);
+    const sc = stone % size;
+    for (let dr = -NEIGHBOR_RADIUS; dr <= NEIGHBOR_RADIUS; dr++) {
+      for (let dc = -NEIGHBOR_RADIUS; dc <= NEIGHBOR_RADIUS; dc++) {
+        const r = sr + dr;
+        const c = sc + dc;
+        if (r < 0 || r >= size || c < 0 || c >= size) continue;
+        const cell = r * size + c;
+        if (cells[cell] !== Player.None || ctx.seen[cell] === generation) continue;
+        ctx.seen[cell] = generation;
+        const priority = cell === firstMove ? Infinity : movePriority(ctx, cell, player);
+        candidates.push({ cell, priority });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.priority - a.priority);
+
+  const moves: number[] = [];
+  for (const { cell } of candidates) {
+    if (moves.length >= limit) break;
+    const r = Math.floor(cell / size);
+    const c = cell % size;
+    if (ctx.rules.hasForbiddenMoves && !isLegalFor(ctx.rules, ctx.grid, r, c, player)) continue;
+    moves.push(cell);
+  }
+  return moves;
+};
+
+const opponentOf = (player: Player): Player =>
+  player === Player.Black ? Player.White : Player.Black;
+
+const negamax = (ctx: SearchContext, depth: number, alpha: number, beta: number, player: Player, ply: number): number => {
+  ctx.nodes++;
+  if ((ctx.nodes & 1023) === 0 && Date.now() > ctx.deadline) ctx.aborted = true;
+  if (ctx.aborted) return 0;
+
+  if (depth === 0) return evaluate(ctx, player);
+
+  const sideKey = player === Player.White ? ctx.size * ctx.size * 2 : -1;
+  const lo = sideKey >= 0 ? (ctx.hashLo ^ ctx.zobrist.lo[sideKey]) >>> 0 : ctx.hashLo >>> 0;
+  const hi = sideKey >= 0 ? (ctx.hashHi ^ ctx.zobrist.hi[sideKey]) >>> 0 : ctx.hashHi >>> 0;
+
+  const entry = ctx.tt.get(lo);
+  let ttMove = -1;
+  if (entry && entry.check === hi) {
+    ttMove = entry.move;
+    if (entry.depth >= depth) {
+      if (entry.bound === Bound.Exact) return entry.score;
+      if (entry.bound === Bound.Lower && entry.score >= beta) return entry.score;
+      if (entry.bound === Bound.Upper && entry.score <= alpha) return entry.score;
+    }
+  }
+
+  const moves = orderedMoves(ctx, player, NODE_BRANCHING, ttMove);
+  if (moves.length === 0) return 0; // Board full: draw
+
+  const alphaOrig = alpha;
+  let best = -Infinity;
+  let bestMove = -1;
+
+  for (const cell of moves) {
+    place(ctx, cell, player);
+    const won = ctx.rules.checkWin(ctx.grid, Math.floor(cell / ctx.size), cell % ctx.size, player) !== null;
+    const score = won
+      ? WIN_SCORE - ply
+      : -negamax(ctx, depth - 1, -beta, -alpha, opponentOf(player), ply + 1);
+    unplace(ctx, cell, player);
+
+    if (ctx.aborted) return 0;
+
+    if (score > best) {
+      best = score;
+      bestMove = cell;
+    }
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+
+  const bound = best <= alphaOrig ? Bound.Upper : best >= beta ? Bound.Lower : Bound.Exact;
+  ctx.tt.set(lo, { check: hi, depth, score: best, bound, move: bestMove });
+  return best;
+};
+
+const createContext = (grid: Player[][], rules: GameRules, deadline: number): SearchContext => {
+  const size = grid.length;
+  const geometry = getGeometry(size, rules.winLength);
+
+  // weights[k] for k stones in a window: 0, 1, 10, 100, ... growing tenfold
+  const weights = [0];
+  for (let k = 1; k <= rules.winLength; k++) weights.push(Math.pow(10, k - 1));
+
+  const ctx: SearchContext = {
+    grid: grid.map(row => [...row]),
+    cells: new Uint8Array(size * size),
+    size,
+    rules,
+    geometry,
+    zobrist: getZobrist(size),
+    weights,
+    lineScores: new Float64Array(geometry.lines.length),
+    score: 0,
+    hashLo: 0,
+    hashHi: 0,
+    stones: [],
+    tt: new Map(),
+    seen: new Uint32Array(size * size),
+    generation: 0,
+    nodes: 0,
+    deadline,
+    aborted: false,
+  };
+
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const cell = r * size + c;
+      const player = grid[r][c];
+      if (player === Player.None) continue;
+      ctx.cells[cell] = player;
+      ctx.stones.push(cell);
+      toggleHash(ctx, cell, player);
+    }
+  }
+
+  geometry.lines.forEach((line, index) => {
+    ctx.lineScores[index] = scoreLine(ctx, line);
+    ctx.score += ctx.lineScores[index];
+  });
+
+  return ctx;
+};
+
+// Find the best move for `player` within the given time and depth budget.
+// `onProgress` is called with the best move so far after every completed depth.
+export const searchBestMove = (
+  grid: Player[][],
+  player: Player,
+  rules: GameRules,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS,
+  onProgress?: (progress: SearchResult) => void
+): SearchResult => {
+  const size = grid.length;
+  const ctx = createContext(grid, rules, Date.now() + options.timeLimitMs);
+
+  // Empty board: take the centre
+  if (ctx.stones.length === 0) {
+    const center = Math.floor(size / 2);
+    return { move: { row: center, col: center }, score: 0, depth: 0, nodes: 0 };
+  }
+
+  let rootMoves = orderedMoves(ctx, player, ROOT_BRANCHING, -1);
+  if (rootMoves.length === 0) {
+    // No neighbours left to try (or all forbidden): any legal point will do
+    for (let cell = 0; cell < size * size && rootMoves.length === 0; cell++) {
+      if (isLegalFor(rules, ctx.grid, Math.floor(cell / size), cell % size, player)) rootMoves = [cell];
+    }
+    if (rootMoves.length === 0) return { move: { row: 0, col: 0 }, score: 0, depth: 0, nodes: 0 };
+  }
+
+  let bestCell = rootMoves[0];
+  let bestScore = 0;
+  let completedDepth = 0;
+
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    let alpha = -Infinity;
+    let iterationBest = -1;
+    let iterationScore = -Infinity;
+
+    for (const cell of rootMoves) {
+      place(ctx, cell, player);
+      const won = rules.checkWin(ctx.grid, Math.floor(cell / size), cell % size, player) !== null;
+      const score = won
+        ? WIN_SCORE
+        : -negamax(ctx, depth - 1, -Infinity, -alpha, opponentOf(player), 1);
+      unplace(ctx, cell, player);
+
+      if (ctx.aborted) break;
+      if (score > iterationScore) {
+        iterationScore = score;
+        iterationBest = cell;
+      }
+      if (score > alpha) alpha = score;
+    }
+
+    if (ctx.aborted) break;
+
+    bestCell = iterationBest;
+    bestScore = iterationScore;
+    completedDepth = depth;
+    onProgress?.({
+      move: { row: Math.floor(bestCell / size), col: bestCell % size },
+      score: bestScore,
+      depth,
+      nodes: ctx.nodes,
+    });
+
+    // Search the previous best move first next time
+    rootMoves = [bestCell, ...rootMoves.filter(cell => cell !== bestCell)];
+
+    // A forced result will not change with more depth
+    if (Math.abs(bestScore) >= WIN_THRESHOLD) break;
+  }
+
+  return {
+    move: { row: Math.floor(bestCell / size), col: bestCell % size },
+    score: bestScore,
+    depth: completedDepth,
+    nodes: ctx.nodes,
+  };
+};
@@ -0,0 +1,313 @@
+import { BOARD_SIZE_OPTIONS, WIN_COUNT, WIN_COUNT_OPTIONS } from '../constants';
+import { Player, BoardState, GameMode, GameResult, ResultReason, RuleVariant, OpeningRule, OpeningPhase, Seat, Move, ClockState } from '../types';
+import { createInitialState, createEmptyGrid, gridFromHistory, replayMoves } from './gameLogic';
+import { nextStoneColor } from './opening';
+import { chainHash, GAME_ID_BYTES } from './remoteGuard';
+import { hasSetupStones } from './position';
+
+// Share links. The current format is "v2." followed by base64url bytes:
+//
+//   0      board size
+//   1      win length
+//   2      rule variant      (index into RULE_ORDER)
+//   3      opening rule      (index into OPENING_ORDER)
+//   4      game mode         (index into MODE_ORDER)
+//   5      flags             bit 0: the Second seat plays Black
+//                            bit 1: an unfinished opening phase follows the moves
+//                            bit 2: watch link (opens a read-only spectator view)
+//                            bit 3: the clocks follow the moves
+//                            bit 4: the game ended away from the board
+//                            bit 5: the fixed moves are a set-up position
+//   6-7    move count        (big-endian)
+//   8-9    fixed move count  (moves that cannot be taken back)
+//   10-17  game id
+//   18-25  chain hash of the moves (see remoteGuard.ts)
+//   26..   moves in play order, as row * size + col: one byte each on boards
+//          up to 16x16, two bytes on larger ones. Colours alternate from Black.
+//   ..     if flagged, the colours of the fixed moves, one bit each from the
+//          top bit of the first byte (set for White); the moves after them
+//          alternate from the other colour than the last fixed one
+//   ..     if flagged, how the game ended: reason (index into REASON_ORDER), then the winning Player
+//   ..     if flagged, the clock state as JSON, preceded by its length (2 bytes)
+//   ..end  the opening phase as JSON, if flagged
+//
+// "v1." links are the same without the game id and hash. The index tables
+// must only ever be appended to, so old links keep their meaning. Links from
+// before the versioned format (one digit per cell) still load.
+
+export interface SharedGame {
+  board: BoardState;
+  mode: GameMode;
+  integrity: { gameId: string; chain: string } | null; // Missing in older links
+  watch: boolean;
+}
+
+const VERSION_PREFIX = 'v2.';
+const V1_PREFIX = 'v1.';
+const HEADER_BYTES = 10;
+const HASH_BYTES = 8;
+
+const RULE_ORDER: RuleVariant[] = [RuleVariant.Freestyle, RuleVariant.Standard, RuleVariant.Renju, RuleVariant.Caro, RuleVariant.Omok];
+const OPENING_ORDER: OpeningRule[] = [OpeningRule.None, OpeningRule.Swap, OpeningRule.Swap2, OpeningRule.Soosorv];
+const MODE_ORDER: GameMode[] = [GameMode.Local, GameMode.AI, GameMode.Remote, GameMode.Online, GameMode.Peer, GameMode.AIMatch, GameMode.Puzzle];
+const REASON_ORDER: ResultReason[] = ['line', 'full-board', 'resignation', 'timeout', 'agreement'];
+
+const FLAG_SECOND_IS_BLACK = 1;
+const FLAG_OPENING = 2;
+const FLAG_WATCH = 4;
+const FLAG_CLOCK = 8;
+const FLAG_RESULT = 16;
+const FLAG_SETUP = 32;
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const indexIn = <T>(order: T[], value: T): number => Math.max(0, order.indexOf(value));
+
+const valueAt = <T>(order: T[], index: number, what: string): T => {
+  if (index >= order.length) throw new Error(`Unknown ${what} in share link`);
+  return order[index];
+};
+
+const hexToBytes = (hex: string): number[] => (hex.match(/../g) ?? []).map(pair => parseInt(pair, 16));
+const bytesToHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const serializeBoard = (state: BoardState, mode: GameMode, gameId: string, watch: boolean = false): string => {
+  const size = state.boardSize;
+  const wide = size * size > 256;
+  const opening = state.opening ? new TextEncoder().encode(JSON.stringify(state.opening)) : new Uint8Array(0);
+  const clock = state.clock ? new TextEncoder().encode(JSON.stringify(state.clock)) : null;
+  const moveCount = state.history.length;
+  const integrityBytes = GAME_ID_BYTES + HASH_BYTES;
+  const clockBytes = clock ? 2 + clock.length : 0;
+  // Lines and full boards come back when the moves are replayed
+  const result = state.result && state.result.reason !== 'line' && state.result.reason !== 'full-board' ? state.result : null;
+  const resultBytes = result ? 2 : 0;
+  // Only set-up positions need their colours spelled out
+  const setup = hasSetupStones(state);
+  const setupBytes = setup ? Math.ceil(state.fixedMoves / 8) : 0;
+
+  const bytes = new Uint8Array(HEADER_BYTES + integrityBytes + moveCount * (wide ? 2 : 1) + setupBytes + resultBytes + clockBytes + opening.length);
+  bytes[0] = size;
+  bytes[1] = state.winLength;
+  bytes[2] = indexIn(RULE_ORDER, state.rule);
+  bytes[3] = indexIn(OPENING_ORDER, state.openingRule);
+  bytes[4] = indexIn(MODE_ORDER, mode);
+  bytes[5] = (state.blackSeat === Seat.Second ? FLAG_SECOND_IS_BLACK : 0) | (state.opening ? FLAG_OPENING : 0) | (watch ? FLAG_WATCH : 0) | (clock ? FLAG_CLOCK : 0) | (result ? FLAG_RESULT : 0) | (setup ? FLAG_SETUP : 0);
+  bytes[6] = moveCount >> 8;
+  bytes[7] = moveCount & 0xff;
+  bytes[8] = state.fixedMoves >> 8;
+  bytes[9] = state.fixedMoves & 0xff;
+
+  bytes.set(hexToBytes(gameId), HEADER_BYTES);
+  bytes.set(hexToBytes(chainHash(gameId, state.history)), HEADER_BYTES + GAME_ID_BYTES);
+
+  let offset = HEADER_BYTES + integrityBytes;
+  for (const { row, col } of state.history) {
+    const cell = row * size + col;
+    if (wide) bytes[offset++] = cell >> 8;
+    bytes[offset++] = cell & 0xff;
+  }
+  if (setup) {
+    state.history.slice(0, state.fixedMoves).forEach((move, i) => {
+      if (move.player === Player.White) bytes[offset + (i >> 3)] |= 0x80 >> (i & 7);
+    });
+    offset += setupBytes;
+  }
+  if (result) {
+    bytes[offset++] = indexIn(REASON_ORDER, result.reason);
+    bytes[offset++] = result.winner ?? Player.None;
+  }
+  if (clock) {
+    bytes[offset++] = clock.length >> 8;
+    bytes[offset++] = clock.length & 0xff;
+    bytes.set(clock, offset);
+    offset += clock.length;
+  }
+  bytes.set(opening, offset);
+
+  return VERSION_PREFIX + toBase64Url(bytes);
+};
+
+const deserializeVersioned = (payload: string, withIntegrity: boolean): SharedGame => {
+  const bytes = fromBase64Url(payload);
+  const integrityBytes = withIntegrity ? GAME_ID_BYTES + HASH_BYTES : 0;
+  if (bytes.length < HEADER_BYTES + integrityBytes) throw new Error('Share link is too short');
+
+  const size = bytes[0];
+  const winLength = bytes[1];
+  if (!BOARD_SIZE_OPTIONS.includes(size) || !WIN_COUNT_OPTIONS.includes(winLength)) {
+    throw new Error('Unsupported board size or win length in share link');
+  }
+  const rule = valueAt(RULE_ORDER, bytes[2], 'rule variant');
+  const openingRule = valueAt(OPENING_ORDER, bytes[3], 'opening rule');
+  const mode = valueAt(MODE_ORDER, bytes[4], 'game mode');
+  const flags = bytes[5];
+  const watch = (flags & FLAG_WATCH) !== 0;
+  const moveCount = (bytes[6] << 8) | bytes[7];
+  const fixedMoves = Math.min((bytes[8] << 8) | bytes[9], moveCount);
+
+  const integrity = withIntegrity
+    ? {
+        gameId: bytesToHex(bytes.slice(HEADER_BYTES, HEADER_BYTES + GAME_ID_BYTES)),
+        chain: bytesToHex(bytes.slice(HEADER_BYTES + GAME_ID_BYTES, HEADER_BYTES + integrityBytes)),
+      }
+    : null;
+
+  const wide = size * size > 256;
+  const movesStart = HEADER_BYTES + integrityBytes;
+  const movesEnd = movesStart + moveCount * (wide ? 2 : 1);
+  if (bytes.length < movesEnd) throw new Error('Share link is cut off');
+
+  const setupBytes = flags & FLAG_SETUP ? Math.ceil(fixedMoves / 8) : 0;
+  if (bytes.length < movesEnd + setupBytes) throw new Error('Share link is cut off');
+  const setupColor = (i: number): Player =>
+    bytes[movesEnd + (i >> 3)] & (0x80 >> (i & 7)) ? Player.White : Player.Black;
+
+  const history: Move[] = [];
+  const seen = new Set<number>();
+  for (let offset = movesStart; offset < movesEnd; ) {
+    const cell = wide ? (bytes[offset++] << 8) | bytes[offset++] : bytes[offset++];
+    if (cell >= size * size || seen.has(cell)) throw new Error('Invalid move in share link');
+    seen.add(cell);
+    const i = history.length;
+    const previous = history[i - 1]?.player;
+    history.push({
+      row: Math.floor(cell / size),
+      col: cell % size,
+      player: !setupBytes ? (i % 2 === 0 ? Player.Black : Player.White)
+        : i < fixedMoves ? setupColor(i)
+        : previous === Player.Black ? Player.White : Player.Black,
+    });
+  }
+
+  let offset = movesEnd + setupBytes;
+  let result: GameResult | null = null;
+  if (flags & FLAG_RESULT) {
+    const winner = bytes[offset + 1] as Player;
+    result = { reason: valueAt(REASON_ORDER, bytes[offset], 'result'), winner: winner === Player.None ? null : winner };
+    offset += 2;
+  }
+  let clock: ClockState | null = null;
+  if (flags & FLAG_CLOCK) {
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    clock = JSON.parse(new TextDecoder().decode(bytes.slice(offset + 2, offset + 2 + length)));
+    offset += 2 + length;
+  }
+
+  const base: BoardState = {
+    ...createInitialState({ rule, openingRule, boardSize: size, winLength }),
+    blackSeat: flags & FLAG_SECOND_IS_BLACK ? Seat.Second : Seat.First,
+    fixedMoves,
+    clock,
+  };
+
+  if (flags & FLAG_OPENING) {
+    const opening: OpeningPhase = JSON.parse(new TextDecoder().decode(bytes.slice(offset)));
+    const grid = gridFromHistory(size, history);
+    return {
+      board: {
+        ...base,
+        grid,
+        history,
+        opening,
+        result,
+        // Black moves again while offering Soosõrv fifth moves
+        currentPlayer: opening.steps[0]?.type === 'offer' ? Player.Black : nextStoneColor(grid),
+      },
+      mode,
+      integrity,
+      watch,
+    };
+  }
+
+  // Replaying the moves restores the side to move, the result and the last move
+  const board = replayMoves(base, history);
+  return { board: result ? { ...board, result } : board, mode, integrity, watch };
+};
+
+// --- Legacy links: one digit per cell, an optional rule letter, then
+// optionally "~" and base64 JSON with the seat, opening and win length ---
+
+const LEGACY_RULE_CODES: Record<RuleVariant, string> = {
+  [RuleVariant.Freestyle]: '',
+  [RuleVariant.Standard]: 'S',
+  [RuleVariant.Renju]: 'R',
+  [RuleVariant.Caro]: 'C',
+  [RuleVariant.Omok]: 'O',
+};
+
+interface LegacyExtras {
+  s: Seat;
+  o: OpeningRule;
+  p: OpeningPhase | null;
+  w?: number; // Win length, omitted for the default
+}
+
+// Legacy links carry only the position, so rebuild a plausible history by
+// alternating Black and White stones in board order
+const historyFromGrid = (grid: Player[][]): Move[] => {
+  const stones = (player: Player): Move[] => grid.flatMap((row, r) =>
+    row.flatMap((cell, c) => (cell === player ? [{ row: r, col: c, player }] : []))
+  );
+  const black = stones(Player.Black);
+  const white = stones(Player.White);
+  const history: Move[] = [];
+  for (let i = 0; i < Math.max(black.length, white.length); i++) {
+    if (i < black.length) history.push(black[i]);
+    if (i < white.length) history.push(white[i]);
+  }
+  return history;
+};
+
+const deserializeLegacy = (str: string): BoardState => {
+  const [main, extraPart] = str.split('~');
+  const cells = main.match(/^[0-2]*/)![0];
+  const code = main.slice(cells.length);
+  const rule = (Object.keys(LEGACY_RULE_CODES) as RuleVariant[]).find(v => LEGACY_RULE_CODES[v] === code) ?? RuleVariant.Freestyle;
+
+  const size = Math.round(Math.sqrt(cells.length));
+  if (size * size !== cells.length || !BOARD_SIZE_OPTIONS.includes(size)) return createInitialState({ rule });
+
+  const grid = createEmptyGrid(size);
+  for (let i = 0; i < cells.length; i++) {
+    grid[Math.floor(i / size)][i % size] = Number(cells[i]) as Player;
+  }
+
+  const extra: LegacyExtras = extraPart
+    ? JSON.parse(atob(extraPart))
+    : { s: Seat.First, o: OpeningRule.None, p: null };
+  const opening = extra.p ?? null;
+  const history = historyFromGrid(grid);
+
+  return {
+    grid,
+    // Whose turn it is follows from the stone counts, except while Black is
+    // offering Soosõrv fifth moves
+    currentPlayer: opening?.steps[0]?.type === 'offer' ? Player.Black : nextStoneColor(grid),
+    result: null,
+    history,
+    winningLine: null,
+    rule,
+    boardSize: size,
+    winLength: Math.min(extra.w ?? WIN_COUNT, size),
+    openingRule: extra.o,
+    opening,
+    blackSeat: extra.s,
+    // The link carries no move order, so the loaded stones cannot be taken back
+    fixedMoves: history.length,
+    clock: null,
+  };
+};
+
+// Throws if a versioned link is malformed
+export const deserializeBoard = (str: string): SharedGame => {
+  if (str.startsWith(VERSION_PREFIX)) return deserializeVersioned(str.slice(VERSION_PREFIX.length), true);
+  if (str.startsWith(V1_PREFIX)) return deserializeVersioned(str.slice(V1_PREFIX.length), false);
+  return { board: deserializeLegacy(str), mode: GameMode.Remote, integrity: null, watch: false };
+};
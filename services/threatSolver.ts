@@ -0,0 +1,382 @@
+import { Player, Coordinates } from '../types';
+import { GameRules, isLegalFor } from './rules';
+
+// Threat-space solver. Only forcing moves are searched:
+//  - VCF (victory by continuous fours): every attacking move makes a four,
+//    so the defender's reply is forced.
+//  - VCT (victory by continuous threats): attacking moves may also be threes
+//    (a move that threatens to make an open four); the defender then gets to
+//    try every move that stops the three, including counter-fours.
+// "Four" and "three" are relative to the game's win length.
+
+export type ThreatKind = 'VCF' | 'VCT';
+
+export interface SolverOptions {
+  vcfDepth: number;   // Max attacking moves in a VCF
+  vctDepth: number;   // Max attacking moves in a VCT
+  maxNodes: number;   // Give up after visiting this many positions
+  timeLimitMs: number;
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  vcfDepth: 12,
+  vctDepth: 5,
+  maxNodes: 40000,
+  timeLimitMs: 1500,
+};
+
+export interface ThreatMove extends Coordinates {
+  player: Player;
+}
+
+export interface ThreatResult {
+  kind: ThreatKind;
+  line: ThreatMove[]; // Attacker and defender moves, ending with the winning stone
+}
+
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+interface SolverContext {
+  grid: Player[][];
+  size: number;
+  rules: GameRules;
+  attacker: Player;
+  defender: Player;
+  nodes: number;
+  maxNodes: number;
+  deadline: number;
+  aborted: boolean;
+}
+
+const inBounds = (ctx: SolverContext, r: number, c: number): boolean =>
+  r >= 0 && r < ctx.size && c >= 0 && c < ctx.size;
+
+const key = (p: Coordinates): number => p.row * 1000 + p.col;
+
+const tick = (ctx: SolverContext): boolean => {
+  ctx.nodes++;
+  if (ctx.nodes > ctx.maxNodes || ((ctx.nodes & 255) === 0 && Date.now() > ctx.deadline)) {
+    ctx.aborted = true;
+  }
+  return ctx.aborted;
+};
+
+// Does `player` playing (r, c) complete a winning line?
+const winsAt = (ctx: SolverContext, r: number, c: number, player: Player): boolean => {
+  if (ctx.grid[r][c] !== Player.None) return false;
+  ctx.grid[r][c] = player;
+  const won = ctx.rules.checkWin(ctx.grid, r, c, player) !== null;
+  ctx.grid[r][c] = Player.None;
+  return won;
+};
+
+// Largest number of `player` stones in a window of winLength cells through
+// (r, c) that holds no opposing stone. A cheap filter before exact checks.
+const windowLevel = (ctx: SolverContext, r: number, c: number, player: Player): number => {
+  const n = ctx.rules.winLength;
+  let best = 0;
+  for (const [dr, dc] of DIRECTIONS) {
+    // Slide a window along the line, tracking own stones and blockers in it
+    let count = 0;
+    let blockers = 0;
+    for (let i = -(n - 1); i <= n - 1; i++) {
+      const nr = r + dr * i;
+      const nc = c + dc * i;
+      const cell = inBounds(ctx, nr, nc) ? ctx.grid[nr][nc] : -1;
+      if (cell === player) count++;
+      else if (cell !== Player.None) blockers++;
+
+      const out = i - n;
+      if (out >= -(n - 1)) {
+        const or = r + dr * out;
+        const oc = c + dc * out;
+        const gone = inBounds(ctx, or, oc) ? ctx.grid[or][oc] : -1;
+        if (gone === player) count--;
+        else if (gone !== Player.None) blockers--;
+      }
+      if (i >= 0 && blockers === 0 && count > best) best = count;
+    }
+  }
+  return best;
+};
+
+// Whether `player` has a stone within `reach` points of (r, c) along one of the
+// four lines. A window of winLength holding `level` of their stones always has
+// one within winLength - level, so this rules most of the board out cheaply.
+const hasStoneNear = (ctx: SolverContext, r: number, c: number, player: Player, reach: number): boolean => {
+  for (const [dr, dc] of DIRECTIONS) {
+    for (let i = 1; i <= reach; i++) {
+      if (inBounds(ctx, r + dr * i, c + dc * i) && ctx.grid[r + dr * i][c + dc * i] === player) return true;
+      if (inBounds(ctx, r - dr * i, c - dc * i) && ctx.grid[r - dr * i][c - dc * i] === player) return true;
+    }
+  }
+  return false;
+};
+
+// Empty points on the four lines through (r, c), within reach of one line
+const pointsAround = (ctx: SolverContext, r: number, c: number): Coordinates[] => {
+  const n = ctx.rules.winLength;
+  const points: Coordinates[] = [];
+  for (const [dr, dc] of DIRECTIONS) {
+    for (let i = -(n - 1); i <= n - 1; i++) {
+      if (i === 0) continue;
+      const nr = r + dr * i;
+      const nc = c + dc * i;
+      if (inBounds(ctx, nr, nc) && ctx.grid[nr][nc] === Player.None) points.push({ row: nr, col: nc });
+    }
+  }
+  return points;
+};
+
+// Winning points `player` has among the points around (r, c)
+const winningPointsAround = (ctx: SolverContext, r: number, c: number, player: Player): Coordinates[] => {
+  const seen = new Set<number>();
+  const result: Coordinates[] = [];
+  for (const p of pointsAround(ctx, r, c)) {
+    if (seen.has(key(p))) continue;
+    seen.add(key(p));
+    if (hasStoneNear(ctx, p.row, p.col, player, 1) && winsAt(ctx, p.row, p.col, player)) result.push(p);
+  }
+  return result;
+};
+
+// All winning points `player` has anywhere on the board
+const winningPoints = (ctx: SolverContext, player: Player): Coordinates[] => {
+  const n = ctx.rules.winLength;
+  const result: Coordinates[] = [];
+  for (let r = 0; r < ctx.size; r++) {
+    for (let c = 0; c < ctx.size; c++) {
+      if (ctx.grid[r][c] !== Player.None || !hasStoneNear(ctx, r, c, player, 1)) continue;
+      if (windowLevel(ctx, r, c, player) < n - 1) continue;
+      if (winsAt(ctx, r, c, player)) result.push({ row: r, col: c });
+    }
+  }
+  return result;
+};
+
+// Empty points worth considering as threats for `player` (min stones already in a window)
+const threatCandidates = (ctx: SolverContext, player: Player, minLevel: number): Coordinates[] => {
+  const reach = ctx.rules.winLength - minLevel;
+  const scored: { move: Coordinates; level: number }[] = [];
+  for (let r = 0; r < ctx.size; r++) {
+    for (let c = 0; c < ctx.size; c++) {
+      if (ctx.grid[r][c] !== Player.None || !hasStoneNear(ctx, r, c, player, reach)) continue;
+      const level = windowLevel(ctx, r, c, player);
+      if (level >= minLevel && isLegalFor(ctx.rules, ctx.grid, r, c, player)) {
+        scored.push({ move: { row: r, col: c }, level });
+      }
+    }
+  }
+  // Points that already sit in fuller windows first
+  return scored.sort((a, b) => b.level - a.level).map(s => s.move);
+};
+
+// Whether `player` playing p makes an open four (two or more winning points at once)
+const makesOpenFour = (ctx: SolverContext, p: Coordinates, player: Player): boolean => {
+  if (!isLegalFor(ctx.rules, ctx.grid, p.row, p.col, player)) return false;
+  ctx.grid[p.row][p.col] = player;
+  const wins = winningPointsAround(ctx, p.row, p.col, player);
+  ctx.grid[p.row][p.col] = Player.None;
+  return wins.length >= 2;
+};
+
+// Points on the lines through (r, c) where `player` would make an open four
+const openFourPoints = (ctx: SolverContext, r: number, c: number, player: Player): Coordinates[] => {
+  const n = ctx.rules.winLength;
+  const result: Coordinates[] = [];
+  const seen = new Set<number>();
+  for (const p of pointsAround(ctx, r, c)) {
+    if (seen.has(key(p))) continue;
+    seen.add(key(p));
+    if (!hasStoneNear(ctx, p.row, p.col, player, 2) || windowLevel(ctx, p.row, p.col, player) < n - 2) continue;
+    if (makesOpenFour(ctx, p, player)) result.push(p);
+  }
+  return result;
+};
+
+const place = (ctx: SolverContext, p: Coordinates, player: Player) => { ctx.grid[p.row][p.col] = player; };
+const remove = (ctx: SolverContext, p: Coordinates) => { ctx.grid[p.row][p.col] = Player.None; };
+
+// OR node: the attacker to move. Returns the winning line, or null.
+const attack = (ctx: SolverContext, depth: number, allowThrees: boolean): ThreatMove[] | null => {
+  if (tick(ctx)) return null;
+  const { attacker, defender } = ctx;
+  const n = ctx.rules.winLength;
+
+  const immediate = winningPoints(ctx, attacker);
+  if (immediate.length > 0) return [{ ...immediate[0], player: attacker }];
+  if (depth === 0) return null;
+
+  // If the defender threatens to win, the attacker must block with a threat of its own
+  const defenderWins = winningPoints(ctx, defender);
+  if (defenderWins.length > 1) return null;
+
+  let candidates = threatCandidates(ctx, attacker, allowThrees ? n - 3 : n - 2);
+  if (defenderWins.length === 1) {
+    candidates = candidates.filter(p => p.row === defenderWins[0].row && p.col === defenderWins[0].col);
+  }
+
+  for (const move of candidates) {
+    place(ctx, move, attacker);
+    const line = defend(ctx, move, depth, allowThrees);
+    remove(ctx, move);
+    if (ctx.aborted) return null;
+    if (line) return [{ ...move, player: attacker }, ...line];
+  }
+  return null;
+};
+
+// AND node: the attacker has just played `last`. Returns the winning line
+// against the defender's most stubborn reply, or null if any reply holds.
+const defend = (ctx: SolverContext, last: Coordinates, depth: number, allowThrees: boolean): ThreatMove[] | null => {
+  if (tick(ctx)) return null;
+  const { attacker, defender } = ctx;
+
+  // attack() only plays here if the defender had no way to win this move,
+  // and an attacking stone cannot give the defender one
+  const fours = winningPointsAround(ctx, last.row, last.col, attacker);
+  if (fours.length >= 2) {
+    // Only one of them can be blocked
+    return [{ ...fours[0], player: defender }, { ...fours[1], player: attacker }];
+  }
+
+  if (fours.length === 1) {
+    const block = fours[0];
+    // Renju: if the only block is forbidden for the defender, the four wins
+    if (!isLegalFor(ctx.rules, ctx.grid, block.row, block.col, defender)) {
+      return [{ ...block, player: attacker }];
+    }
+    place(ctx, block, defender);
+    const line = attack(ctx, depth - 1, allowThrees);
+    remove(ctx, block);
+    return line ? [{ ...block, player: defender }, ...line] : null;
+  }
+
+  if (!allowThrees) return null;
+
+  // A three: the attacker threatens to make an open four next move
+  const threats = openFourPoints(ctx, last.row, last.col, attacker);
+  if (threats.length === 0) return null;
+
+  // Defences: points on the three's lines that take away every open-four
+  // follow-up, plus counter-fours anywhere
+  const defences = new Map<number, Coordinates>();
+  for (const p of pointsAround(ctx, last.row, last.col)) {
+    if (defences.has(key(p)) || !isLegalFor(ctx.rules, ctx.grid, p.row, p.col, defender)) continue;
+    // A defending stone can only take threats away, so recheck the known ones
+    place(ctx, p, defender);
+    const stillThreatened = threats.some(t => ctx.grid[t.row][t.col] === Player.None && makesOpenFour(ctx, t, attacker));
+    remove(ctx, p);
+    if (!stillThreatened) defences.set(key(p), p);
+  }
+  for (const p of threatCandidates(ctx, defender, ctx.rules.winLength - 2)) {
+    place(ctx, p, defender);
+    const isFour = winningPointsAround(ctx, p.row, p.col, defender).length > 0;
+    remove(ctx, p);
+    if (isFour) defences.set(key(p), p);
+  }
+  // Nothing stops it (e.g. a double three); still play a reply to show the finish
+  if (defences.size === 0) defences.set(key(threats[0]), threats[0]);
+
+  let longest: ThreatMove[] | null = null;
+  for (const reply of defences.values()) {
+    place(ctx, reply, defender);
+    const line = attack(ctx, depth - 1, allowThrees);
+    remove(ctx, reply);
+    if (!line || ctx.aborted) return null;
+    const full = [{ ...reply, player: defender }, ...line];
+    if (!longest || full.length > longest.length) longest = full;
+  }
+  return longest;
+};
+
+const createContext = (grid: Player[][], attacker: Player, rules: GameRules, options: SolverOptions, deadline: number): SolverContext => ({
+  grid: grid.map(row => [...row]),
+  size: grid.length,
+  rules,
+  attacker,
+  defender: attacker === Player.Black ? Player.White : Player.Black,
+  nodes: 0,
+  maxNodes: options.maxNodes,
+  deadline,
+  aborted: false,
+});
+
+// Iterative deepening, so the shortest win is found first and shallow
+// failures stay cheap. `aborted` means the budget ran out before a proof.
+const search = (
+  grid: Player[][],
+  attacker: Player,
+  rules: GameRules,
+  kind: ThreatKind,
+  options: SolverOptions,
+  deadline: number
+): { line: ThreatMove[] | null; aborted: boolean } => {
+  const ctx = createContext(grid, attacker, rules, options, deadline);
+  const maxDepth = kind === 'VCF' ? options.vcfDepth : options.vctDepth;
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const line = attack(ctx, depth, kind === 'VCT');
+    if (line) return { line, aborted: false };
+    if (ctx.aborted) break;
+  }
+  return { line: null, aborted: ctx.aborted };
+};
+
+// Does `attacker`, to move, have a forced win? Tries VCF first, then VCT.
+// A null result means none was found within the budget, not that none exists.
+export const findForcedWin = (
+  grid: Player[][],
+  attacker: Player,
+  rules: GameRules,
+  options: SolverOptions = DEFAULT_SOLVER_OPTIONS,
+  kinds: ThreatKind[] = ['VCF', 'VCT']
+): ThreatResult | null => {
+  const deadline = Date.now() + options.timeLimitMs;
+  for (const kind of kinds) {
+    const { line } = search(grid, attacker, rules, kind, options, deadline);
+    if (line) return { kind, line };
+  }
+  return null;
+};
+
+// A move for `player` (to move) that stops the opponent's forced win, if the
+// opponent has one we can see. Returns null when there is nothing to stop or
+// no defence was proven to work within the budget.
+export const findForcedWinDefence = (
+  grid: Player[][],
+  player: Player,
+  rules: GameRules,
+  options: SolverOptions = DEFAULT_SOLVER_OPTIONS
+): Coordinates | null => {
+  const opponent = player === Player.Black ? Player.White : Player.Black;
+  const deadline = Date.now() + options.timeLimitMs;
+
+  let threat: ThreatResult | null = null;
+  for (const kind of ['VCF', 'VCT'] as ThreatKind[]) {
+    const { line } = search(grid, opponent, rules, kind, options, deadline);
+    if (line) { threat = { kind, line }; break; }
+  }
+  if (!threat) return null;
+
+  // Try the points of the opponent's winning line first, then our own fours
+  const scratch = grid.map(row => [...row]);
+  const ctx = createContext(scratch, player, rules, options, deadline);
+  const candidates: Coordinates[] = [
+    ...threat.line,
+    ...threatCandidates(ctx, player, rules.winLength - 2),
+  ];
+
+  const tried = new Set<number>();
+  for (const move of candidates) {
+    if (Date.now() > deadline) break;
+    if (tried.has(key(move))) continue;
+    tried.add(key(move));
+    if (!isLegalFor(rules, scratch, move.row, move.col, player)) continue;
+
+    scratch[move.row][move.col] = player;
+    const { line, aborted } = search(scratch, opponent, rules, threat.kind, options, deadline);
+    scratch[move.row][move.col] = Player.None;
+    if (!line && !aborted) return { row: move.row, col: move.col };
+  }
+  return null;
+};
@@ -7,24 +7,126 @@ export enum Player {
 export interface BoardState {
   grid: Player[][];
   currentPlayer: Player;
-  winner: Player | null;
-  history: { row: number; col: number; player: Player }[];
+  result: GameResult | null;     // null while the game is still being played
+  history: Move[];               // Every stone in play order; the grid is derived from it
   winningLine: { row: number; col: number }[] | null;
+  rule: RuleVariant;
+  boardSize: number;
+  winLength: number;            // Stones in a row needed to win
+  openingRule: OpeningRule;
+  opening: OpeningPhase | null; // Non-null while the opening protocol is still running
+  blackSeat: Seat;              // Which player ends up with Black after the opening
+  fixedMoves: number;           // Moves before this index cannot be taken back (opening stones, positions loaded without move order)
+  clock: ClockState | null;     // null when the game is not timed
 }
 
+// How a game ended. Lines and full boards follow from the moves; the rest
+// are decided away from the board.
+export type ResultReason = 'line' | 'full-board' | 'resignation' | 'timeout' | 'agreement';
+
+export interface GameResult {
+  winner: Player | null; // null for a draw
+  reason: ResultReason;
+}
+
+// Per-game choices made before the first stone is placed
+export interface GameSettings {
+  rule: RuleVariant;
+  openingRule: OpeningRule;
+  boardSize: number;
+  winLength: number;
+  timeControl: TimeControl;
+}
+
+// How much thinking time each player gets (all times in milliseconds)
+export type TimeControl =
+  | { type: 'none' }
+  | { type: 'sudden-death'; mainMs: number }                               // Lose when the time runs out
+  | { type: 'fischer'; mainMs: number; incrementMs: number }               // Time added after every move
+  | { type: 'byoyomi'; mainMs: number; periods: number; periodMs: number }; // Then fixed periods per move
+
+// Clocks are kept per seat, so they follow the players through opening swaps
+export interface ClockState {
+  control: TimeControl;
+  remaining: Record<Seat, number>; // Main time left, not counting the turn in progress
+  periods: Record<Seat, number>;   // Byoyomi periods left
+  running: Seat | null;            // Whose turn is being timed; null before the first move and after the end
+  turnStart: number | null;        // When the running clock was last started; null while paused
+  turnUsed: number;                // Time already spent on this turn before a pause
+  flagged: Seat | null;            // Lost on time
+}
+
+// The two players, independent of the colour they end up with
+export enum Seat {
+  First = 'FIRST',   // Starts the game (places the opening stones)
+  Second = 'SECOND'
+}
+
+export enum OpeningRule {
+  None = 'NONE',       // First player simply plays Black
+  Swap = 'SWAP',
+  Swap2 = 'SWAP2',
+  Soosorv = 'SOOSORV'  // Soosõrv-8
+}
+
+// Who performs an opening step: a fixed seat, or whoever currently holds a colour
+export type OpeningActor = 'first' | 'second' | 'black' | 'white';
+
+export type OpeningChoice = 'black' | 'white' | 'place-two';
+
+export type OpeningStep =
+  | { type: 'place'; actor: OpeningActor; count: number }
+  | { type: 'choose'; actor: OpeningActor; options: OpeningChoice[] }
+  | { type: 'declare'; actor: OpeningActor } // Soosõrv: Black declares the number of fifth moves
+  | { type: 'offer'; actor: OpeningActor }   // Soosõrv: Black offers that many fifth moves
+  | { type: 'select'; actor: OpeningActor }; // Soosõrv: White keeps one of them
+
+export interface OpeningPhase {
+  steps: OpeningStep[];       // Remaining steps, the first one is in progress
+  placed: number;             // Stones placed so far in the current 'place' step
+  fifthCount: number;         // Soosõrv: number of fifth-move candidates declared
+  candidates: { row: number; col: number }[]; // Soosõrv: fifth-move candidates on offer
+}
+
+export type OpeningAction =
+  | { type: 'place'; move: Coordinates }  // Also used to offer a Soosõrv candidate
+  | { type: 'choose'; choice: OpeningChoice }
+  | { type: 'declare'; count: number }
+  | { type: 'select'; move: Coordinates };
+
 export enum GameMode {
   Local = 'LOCAL',
   AI = 'AI',
-  Remote = 'REMOTE_LINK' // Async play via URL sharing
+  Remote = 'REMOTE_LINK', // Async play via URL sharing
+  Online = 'ONLINE',      // Live play through the relay server (server/relay.ts)
+  Peer = 'PEER',          // Live play over a direct WebRTC connection
+  AIMatch = 'AI_MATCH',   // Two AIs play each other while you watch
+  Puzzle = 'PUZZLE'       // Find the forced win in a set position (services/puzzles.ts)
 }
 
 export enum Difficulty {
   Easy = 'EASY',
   Medium = 'MEDIUM',
-  Hard = 'HARD'
+  Hard = 'HARD',
+  Master = 'MASTER', // Local alpha-beta search engine, works offline
+  Engine = 'ENGINE'  // Outside Gomocup engine through server/engineBridge.ts
 }
 
+export enum RuleVariant {
+  Freestyle = 'FREESTYLE', // Five or more in a row wins for both sides
+  Standard = 'STANDARD',   // Exactly five wins, overlines do not count
+  Renju = 'RENJU',         // Black must make exactly five and may not play forbidden moves
+  Caro = 'CARO',           // A five blocked at both ends does not count
+  Omok = 'OMOK'            // Double-three is forbidden for both sides
+}
+
+export type ForbiddenReason = 'overline' | 'double-four' | 'double-three';
+
 export interface Coordinates {
   row: number;
   col: number;
-}
\ No newline at end of file
+}
+
+export interface Move extends Coordinates {
+  player: Player;
+}